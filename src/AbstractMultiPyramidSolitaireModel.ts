@@ -0,0 +1,160 @@
+import {AbstractPyramidSolitaire} from "./AbstractPyramidSolitaire";
+import {Card} from "./Card";
+import {GameOptions} from "./GameOptions";
+
+/**
+ * Represents the abstract functionality for a game of PyramidSolitaire, specifically the
+ * functionality for games with boards in the shape of three overlapping pyramids, which need more
+ * cards than a single pyramid and so are usually played with a double deck.
+ * <p> The peaks of the three pyramids are dealt in the top row, half the height of the pyramids
+ * apart (rounded down), and each row is one card wider than the row above it, as in a single
+ * pyramid. Rows are stored from their leftmost position to their rightmost, with null in the gaps
+ * between the pyramids until they meet. A card is covered by the two cards directly below it, as
+ * in a single pyramid, which are always dealt if the card is, so the gaps never cover a card. </p>
+ * <p> The pyramids are at least four rows high, as the peaks of lower pyramids would be dealt next
+ * to each other, or on top of each other for a single row. </p>
+ */
+export abstract class AbstractMultiPyramidSolitaireModel extends AbstractPyramidSolitaire {
+    /**
+     * The number of pyramids dealt.
+     */
+    static readonly NUM_PYRAMIDS: number = 3;
+
+    /**
+     * The smallest number of rows of the pyramids, the lowest at which there is a gap between their
+     * peaks.
+     */
+    static readonly MIN_ROWS: number = 4;
+
+    /**
+     * Starts a game of three pyramids of the given height, as a single pyramid is started.
+     *
+     * @param deck    the deck to be dealt
+     * @param shuffle whether the deck is to be shuffled
+     * @param numRows number of rows in the pyramids
+     * @param numDraw number of draw cards available at a time
+     * @param options the optional settings of the game
+     * @throws Error if the pyramids would have fewer than {@link MIN_ROWS} rows, or the game cannot
+     *               be started as a single pyramid could not
+     */
+    startGame(deck: Array<Card>, shuffle: boolean, numRows: number, numDraw: number,
+              options: GameOptions = {}): void {
+        // Checks that the peaks of the pyramids are apart.
+        if (numRows < AbstractMultiPyramidSolitaireModel.MIN_ROWS) {
+            throw new Error("Three pyramids need at least " + AbstractMultiPyramidSolitaireModel.MIN_ROWS
+                + " rows.");
+        }
+        super.startGame(deck, shuffle, numRows, numDraw, options);
+    }
+
+    /**
+     * Returns whether the given position is one at which a card is dealt, meaning it is within one
+     * of the three pyramids rather than in a gap between them.
+     *
+     * @param row  row of the position (0-indexed from the top)
+     * @param card column of the position (0-indexed from the left)
+     * @return whether a card is dealt at the given position
+     */
+    isLayoutPosition(row: number, card: number): boolean {
+        return super.isLayoutPosition(row, card)
+            && AbstractMultiPyramidSolitaireModel.isInPyramid(row, card, this.getNumRows());
+    }
+
+    protected dealCards(numRows: number, deck: Array<Card>, shuffle: boolean): Array<Array<Card>> {
+        let result: Array<Array<Card>> = new Array<Array<Card>>();
+
+        // shuffles the deck if indicated
+        if (shuffle) {
+            this.shuffle(deck);
+        }
+
+        // deals a card to every position within a pyramid, leaving the gaps between them empty
+        for (let row = 0; row < numRows; row += 1) {
+            let cards: Array<Card> = new Array<Card>();
+            for (let card = 0; card < AbstractMultiPyramidSolitaireModel.rowWidth(row, numRows); card += 1) {
+                if (AbstractMultiPyramidSolitaireModel.isInPyramid(row, card, numRows)) {
+                    cards.push(deck[0]);
+                    deck.shift();
+                } else {
+                    cards.push(null);
+                }
+            }
+            result.push(cards);
+        }
+        return result;
+    }
+
+    protected isValidPyramidShape(pyramid: Array<Array<Card>>): boolean {
+        // every row is as wide as it is dealt, with no cards in the gaps between the pyramids
+        for (let row = 0; row < pyramid.length; row += 1) {
+            if (pyramid[row].length !== AbstractMultiPyramidSolitaireModel.rowWidth(row, pyramid.length)) {
+                return false;
+            }
+            for (let card = 0; card < pyramid[row].length; card += 1) {
+                if (pyramid[row][card] != null
+                    && !AbstractMultiPyramidSolitaireModel.isInPyramid(row, card, pyramid.length)) {
+                    return false;
+                }
+            }
+        }
+        return pyramid.length >= AbstractMultiPyramidSolitaireModel.MIN_ROWS;
+    }
+
+    isEnoughCards(deckSize: number, numRows: number, numDraws: number): boolean {
+        return this.pyramidSize(numRows) + numDraws <= deckSize;
+    }
+
+    protected pyramidSize(numRows: number): number {
+        // counts the positions within the pyramids, which are the cards to be dealt
+        let pyramidSize: number = 0;
+        for (let row = 0; row < numRows; row += 1) {
+            for (let card = 0; card < AbstractMultiPyramidSolitaireModel.rowWidth(row, numRows); card += 1) {
+                if (AbstractMultiPyramidSolitaireModel.isInPyramid(row, card, numRows)) {
+                    pyramidSize += 1;
+                }
+            }
+        }
+        return pyramidSize;
+    }
+
+    /**
+     * Returns the number of columns between the peaks of neighbouring pyramids of the given height.
+     *
+     * @param numRows the height of the pyramids
+     * @return the distance between neighbouring peaks
+     */
+    private static peakSpacing(numRows: number): number {
+        return Math.floor(numRows / 2);
+    }
+
+    /**
+     * Returns the width of the given row of pyramids of the given height, from the leftmost position
+     * of the first pyramid to the rightmost position of the last.
+     *
+     * @param row     the row (0-indexed from the top)
+     * @param numRows the height of the pyramids
+     * @return the number of positions in the row, including the gaps
+     */
+    private static rowWidth(row: number, numRows: number): number {
+        return row + 1 + (AbstractMultiPyramidSolitaireModel.NUM_PYRAMIDS - 1)
+            * AbstractMultiPyramidSolitaireModel.peakSpacing(numRows);
+    }
+
+    /**
+     * Returns whether the given position is within one of the pyramids of the given height.
+     *
+     * @param row     the row of the position
+     * @param card    the column of the position
+     * @param numRows the height of the pyramids
+     * @return whether the position is within a pyramid
+     */
+    private static isInPyramid(row: number, card: number, numRows: number): boolean {
+        for (let peak = 0; peak < AbstractMultiPyramidSolitaireModel.NUM_PYRAMIDS; peak += 1) {
+            let left: number = peak * AbstractMultiPyramidSolitaireModel.peakSpacing(numRows);
+            if (card >= left && card <= left + row) {
+                return true;
+            }
+        }
+        return false;
+    }
+}
@@ -1,32 +1,156 @@
 import {Card} from "./Card";
 import {GameState} from "./GameState";
+import {GameSnapshot} from "./GameSnapshot";
+import {GameOptions} from "./GameOptions";
+import {SeededRandom} from "./SeededRandom";
+import {Move} from "./Move";
+import {MoveType} from "./MoveType";
+import {SavedCard, SavedGame} from "./SavedGame";
+import {GameRecording, RecordedMove} from "./GameRecording";
+import {GameType} from "./GameType";
+import {DeckSpec} from "./DeckSpec";
+import {Suit} from "./Suit";
+import {GameEvent, GameEventListener} from "./GameEvent";
+import {GameEventType} from "./GameEventType";
+import {ScoringPolicy, ScoringState} from "./ScoringPolicy";
+import {ScoringType} from "./ScoringType";
+import {ScoringPolicyCreator} from "./ScoringPolicyCreator";
+import {CardPosition} from "./CardPosition";
+import {CardCoveredError} from "./CardCoveredError";
+import {WrongSumError} from "./WrongSumError";
+import {EmptyPositionError} from "./EmptyPositionError";
+import {OutOfBoundsError} from "./OutOfBoundsError";
+import {GameNotStartedError} from "./GameNotStartedError";
+import {SameCardError} from "./SameCardError";
 
 /**
  * Represents the abstract functionality for a game of PyramidSolitaire, regardless of the number of
  * pyramids of the game.
  */
  export abstract class AbstractPyramidSolitaire {
+    /**
+     * The highest deal number, deals being numbered from 1 up to and including this number.
+     */
+    static readonly MAX_DEAL_NUMBER: number = 1000000;
+
+    /**
+     * The version of the JSON format written by {@link toJSON}.
+     */
+    static readonly SAVE_VERSION: number = 5;
+
+    /**
+     * The value which cards must add up to in order to be removed, unless a game is started with
+     * another.
+     */
+    static readonly DEFAULT_REMOVAL_VALUE: number = 13;
+
     protected pyramid: Array<Array<Card>>;
     private stock: Array<Card>;
+    private waste: Array<Card>;
+    private redealsLeft: number;
     protected draws: Array<Card>;
     protected gamestate: GameState;
-    protected removalValue: number = 13;
+    protected removalValue: number = AbstractPyramidSolitaire.DEFAULT_REMOVAL_VALUE;
+    private deckSpec: DeckSpec;
+    protected random: SeededRandom;
+    private dealNumber: number;
+    private undoHistory: Array<GameSnapshot>;
+    private redoHistory: Array<GameSnapshot>;
+    private recording: GameRecording;
+    private undoneMoves: Array<RecordedMove>;
+    private readonly listeners: Array<GameEventListener>;
+    private scoring: ScoringPolicy;
+    // the number of moves made, not counting redone moves, and the time from the deal to the last
+    // move, which only change with the moves so that the score does too
+    private moves: number;
+    private elapsed: number;
+    private startTime: number;
 
     /**
-     * Constructs a {@code AbstractPyramidModel} object.
+     * Constructs a {@code AbstractPyramidModel} object which is played with a deck of the given
+     * make-up.
+     *
+     * @param deckSpec the make-up of the deck of this game
+     * @throws Error if the make-up of the deck is not valid
      */
-    constructor() {
+    constructor(deckSpec: DeckSpec) {
+        AbstractPyramidSolitaire.checkDeckSpec(deckSpec);
+        this.deckSpec = {values: deckSpec.values.slice(), copies: deckSpec.copies};
         this.gamestate = GameState.NOT_STARTED;
+        this.random = new SeededRandom(AbstractPyramidSolitaire.randomDealNumber());
+        this.dealNumber = -1;
+        this.waste = new Array<Card>();
+        this.redealsLeft = 0;
+        this.undoHistory = new Array<GameSnapshot>();
+        this.redoHistory = new Array<GameSnapshot>();
+        this.recording = null;
+        this.undoneMoves = new Array<RecordedMove>();
+        this.listeners = new Array<GameEventListener>();
+        this.scoring = ScoringPolicyCreator.create(ScoringType.PYRAMID_SUM);
+        this.moves = 0;
+        this.elapsed = 0;
+        this.startTime = Date.now();
+    }
+
+    /**
+     * Adds the given listener to the subscribers of this game, which are told about every event of
+     * the game once the game has finished changing. A listener which is already subscribed is not
+     * added again. Copies of this game do not share its subscribers.
+     *
+     * @param listener the listener to be told about the events of this game
+     */
+    subscribe(listener: GameEventListener): void {
+        if (this.listeners.indexOf(listener) === -1) {
+            this.listeners.push(listener);
+        }
+    }
+
+    /**
+     * Removes the given listener from the subscribers of this game, if it is one of them.
+     *
+     * @param listener the listener to no longer be told about the events of this game
+     */
+    unsubscribe(listener: GameEventListener): void {
+        let index: number = this.listeners.indexOf(listener);
+        if (index !== -1) {
+            this.listeners.splice(index, 1);
+        }
     }
 
     /**
-     * Return a valid and complete deck of cards for a game of Pyramid Solitaire. There is no
-     * restriction imposed on the ordering of these cards in the deck. The validity of the deck is
-     * determined by the rules of the specific game in the classes implementing this interface.
+     * Return a valid and complete deck of cards for a game of Pyramid Solitaire, made up as
+     * described by the deck specification this game was constructed with. There is no restriction
+     * imposed on the ordering of these cards in the deck.
      *
      * @return the deck of cards as a list
      */
-    abstract getDeck(): Array<Card>;
+    getDeck(): Array<Card> {
+        return AbstractPyramidSolitaire.buildDeck(this.deckSpec);
+    }
+
+    /**
+     * Returns the make-up of the deck this game is played with.
+     *
+     * @return a copy of the deck specification of this game
+     */
+    getDeckSpec(): DeckSpec {
+        return {values: this.deckSpec.values.slice(), copies: this.deckSpec.copies};
+    }
+
+    /**
+     * Returns the specification of a deck with every value from ace to king in every suit, repeated
+     * the given number of times.
+     *
+     * @param copies the number of copies of every card
+     * @return the specification of the deck
+     */
+    static standardDeck(copies: number): DeckSpec {
+        let values: Array<number> = new Array<number>();
+        for (let value = 1; value <= 13; value++) {
+            values.push(value);
+        }
+        return {values: values, copies: copies};
+    }
 
     /**
      * <p>Deal a new game of Pyramid Solitaire.
@@ -38,6 +162,13 @@ import {GameState} from "./GameState";
      * of rows, followed by the specified number of draw cards. When {@code shuffle} is {@code false},
      * the 0th card in {@code deck} is used as the first card dealt.</p>
      *
+     * <p>When {@code shuffle} is {@code true} the order is decided by the seed of the given
+     * options, which is also the number of the deal, so that the same deck and seed always give the
+     * same deal. If no seed is given a deal number is chosen at random.</p>
+     *
+     * <p>Discarded draw cards go to the waste. Once the stock runs out, the waste is turned over to
+     * become the new stock as many times as the redeals of the given options allow.</p>
+     *
      * <p>This method should have no other side effects, and should work for any valid arguments.</p>
      *
      * @param deck    the deck to be dealt
@@ -45,12 +176,18 @@ import {GameState} from "./GameState";
      *                randomly shuffled order
      * @param numRows number of rows in the pyramid
      * @param numDraw number of draw cards available at a time
+     * @param options the optional settings of the game
      * @throws Error if the deck is null or invalid, the number of pyramid rows or
      *                                  number of available draw cards is non-positive, or a full
      *                                  pyramid and draw pile cannot be dealt with the number of given
      *                                  cards in deck
+     * @throws Error if the given seed is not a valid deal number
+     * @throws Error if the given number of redeals is not a whole number of at least zero
+     * @throws Error if the given removal value is not a positive whole number
+     * @throws Error if the given kind of scoring is not known
      */
-    startGame(deck: Array<Card>, shuffle: boolean, numRows: number, numDraw: number): void {
+    startGame(deck: Array<Card>, shuffle: boolean, numRows: number, numDraw: number,
+              options: GameOptions = {}): void {
 
         //Checks that the given deck is not null or invalid.
         if (deck == null || !this.isValidDeck(deck)) {
@@ -77,6 +214,36 @@ import {GameState} from "./GameState";
         if (numDraw < 0) {
             throw new Error("Number of draw cards cannot be negative.");
         }
+
+        // Checks that the given seed is a valid deal number.
+        if (options.seed != null && !AbstractPyramidSolitaire.isValidDealNumber(options.seed)) {
+            throw new Error("The deal number must be a whole number from 1 to "
+                + AbstractPyramidSolitaire.MAX_DEAL_NUMBER + ".");
+        }
+
+        // Checks that the given removal value is a positive whole number.
+        if (options.removalValue != null
+            && (!Number.isInteger(options.removalValue) || options.removalValue <= 0)) {
+            throw new Error("The removal value must be a positive whole number.");
+        }
+
+        // Checks that the given number of redeals is a whole number of at least zero.
+        if (options.redeals != null && (!Number.isInteger(options.redeals) || options.redeals < 0)) {
+            throw new Error("The number of redeals must be a whole number of at least zero.");
+        }
+
+        // Checks that the given kind of scoring is known.
+        let scoring: ScoringPolicy = ScoringPolicyCreator.create(options.scoring != null
+            ? options.scoring : ScoringType.PYRAMID_SUM);
+
+        // Seeds the shuffle with the number of this deal.
+        if (shuffle) {
+            this.dealNumber = options.seed != null
+                ? options.seed : AbstractPyramidSolitaire.randomDealNumber();
+            this.random = new SeededRandom(this.dealNumber);
+        } else {
+            this.dealNumber = -1;
+        }
         // Copies the deck over to a temp so that it will not be altered.
         let deckCopy: Array<Card> = new Array<Card>();
 
@@ -91,7 +258,20 @@ import {GameState} from "./GameState";
             deckCopy.shift();
         }
         this.stock = deckCopy;
+        this.waste = new Array<Card>();
+        this.redealsLeft = options.redeals != null ? options.redeals : 0;
+        this.removalValue = options.removalValue != null
+            ? options.removalValue : AbstractPyramidSolitaire.DEFAULT_REMOVAL_VALUE;
         this.gamestate = GameState.STARTED;
+        this.scoring = scoring;
+        this.moves = 0;
+        this.elapsed = 0;
+        this.startTime = Date.now();
+        // a new deal starts with no moves to undo or redo
+        this.undoHistory = new Array<GameSnapshot>();
+        this.redoHistory = new Array<GameSnapshot>();
+        this.startRecording(numRows, numDraw, this.redealsLeft);
+        this.emitStarted(false);
     }
 
     /**
@@ -105,6 +285,32 @@ import {GameState} from "./GameState";
      */
     protected abstract dealCards(numRows: number, deck: Array<Card>, shuffle: boolean): Array<Array<Card>>;
 
+    /**
+     * Shuffles the given array in place using the seeded random numbers of this game, so that the
+     * same deal number always gives the same order.
+     *
+     * @param array the array to be shuffled
+     * @return the given array
+     */
+    shuffle(array: Array<any>): Array<any> {
+        var currentIndex = array.length, temporaryValue, randomIndex;
+
+        // While there remain elements to shuffle...
+        while (0 !== currentIndex) {
+
+            // Pick a remaining element...
+            randomIndex = this.random.nextInt(currentIndex);
+            currentIndex -= 1;
+
+            // And swap it with the current element.
+            temporaryValue = array[currentIndex];
+            array[currentIndex] = array[randomIndex];
+            array[randomIndex] = temporaryValue;
+        }
+
+        return array;
+    }
+
 
 
     /**
@@ -114,20 +320,29 @@ import {GameState} from "./GameState";
      * @param card1 card of first card position, numbered from 0 from left
      * @param row2  row of second card position
      * @param card2 card of second card position
-     * @throws Error if the move is invalid
+     * @throws PyramidSolitaireError if the move is invalid, of the kind telling why
      * @throws Error if the game has not yet been started
      */
     removeTwo(row1: number, card1: number, row2: number, card2: number) : void {
         this.removeTwoChecks(row1, card1, row2, card2);
 
-        // Checks if the given cards are exposed.
-        if (this.isCovered(row1, card1) || this.isCovered(row2, card2)) {
-            throw new Error("The card at the given index is covered and therefore "
-                + "cannot be removed.");
+        // Checks if the given cards are exposed enough to be removed together.
+        if (!this.canRemovePair(row1, card1, row2, card2)) {
+            let positions: Array<CardPosition> = [{row: row1, card: card1}, {row: row2, card: card2}];
+            let covered: Array<CardPosition> = positions.filter((position) => {
+                return this.isCovered(position.row, position.card);
+            });
+            throw new CardCoveredError(covered.length > 0 ? covered : positions);
         }
+        let scoreBefore: number = this.getScore();
+        let cards: Array<Card> = [this.pyramid[row1][card1], this.pyramid[row2][card2]];
+        let move: Move = {type: MoveType.REMOVE_TWO, row1: row1, card1: card1, row2: row2, card2: card2};
+        this.recordMove(move);
         // Replaces the given cards with null
         this.pyramid[row1][card1] = null;
         this.pyramid[row2][card2] = null;
+        this.emit({type: GameEventType.CARDS_REMOVED, move: move, cards: cards});
+        this.emitAfterMove(scoreBefore);
     }
 
 
@@ -136,7 +351,7 @@ import {GameState} from "./GameState";
      *
      * @param row  row of the desired card position, numbered from 0 from the top of the pyramid
      * @param card card of the desired card position, numbered from 0 from left
-     * @throws Error if the move is invalid
+     * @throws PyramidSolitaireError if the move is invalid, of the kind telling why
      * @throws Error if the game has not yet been started
      */
     remove(row: number, card: number): void {
@@ -145,30 +360,36 @@ import {GameState} from "./GameState";
 
         // Checks if the given row is in bounds from this game's pyramid.
         if (!this.isRowInBounds(row)) {
-            throw new Error("The given row index is out of bounds.");
+            throw new OutOfBoundsError("The given row index is out of bounds.", [{row: row, card: card}]);
         }
         // Checks if the given card is in bounds from this game's pyramid.
         if (!this.isCardInBounds(row, card)) {
-            throw new Error(
-                "The given card index is out of bounds for the given row.");
+            throw new OutOfBoundsError(
+                "The given card index is out of bounds for the given row.", [{row: row, card: card}]);
         }
         // Checks if the given card is null.
         if (this.getCardAt(row, card) == null) {
-            throw new Error("No card at the given index. ");
+            throw new EmptyPositionError("No card at the given index. ", [{row: row, card: card}]);
         }
         // Checks if the given card has a value of the removal value.
         if (this.getCardAt(row, card).getValue() != this.removalValue) {
-            throw new Error("The given card does not have a value of 13, "
-                + "and therefore cannot be removed.");
+            throw new WrongSumError("The given card does not have a value of " + this.removalValue
+                + ", and therefore cannot be removed.", [{row: row, card: card}], [this.getCardAt(row, card)],
+                this.removalValue);
         }
         // Checks if the given card is covered.
         if (this.isCovered(row, card)) {
-            throw new Error("The card at the given index is covered and therefore "
-                + "cannot be removed.");
+            throw new CardCoveredError([{row: row, card: card}]);
         }
 
+        let scoreBefore: number = this.getScore();
+        let cards: Array<Card> = [this.pyramid[row][card]];
+        let move: Move = {type: MoveType.REMOVE, row: row, card: card};
+        this.recordMove(move);
         // Sets the card at the given index to null.
         this.pyramid[row][card] = null;
+        this.emit({type: GameEventType.CARDS_REMOVED, move: move, cards: cards});
+        this.emitAfterMove(scoreBefore);
     }
 
     /**
@@ -177,7 +398,7 @@ import {GameState} from "./GameState";
      *
      * @param row  row of the desired card position, numbered from 0 from the top of the pyramid
      * @param card card of the desired card position, numbered from 0 from left
-     * @throws Error if the move is invalid
+     * @throws PyramidSolitaireError if the move is invalid, of the kind telling why
      * @throws Error if the game has not yet been started
      */
     removeUsingDraw(drawIndex: number, row: number, card: number): void {
@@ -186,43 +407,52 @@ import {GameState} from "./GameState";
 
         // Checks if the given row is in bounds for this game's pyramid.
         if (!this.isRowInBounds(row)) {
-            throw new Error("The given row index is out of bounds.");
+            throw new OutOfBoundsError("The given row index is out of bounds.", [{row: row, card: card}]);
         }
         // Checks if the given card is in bounds for this game's pyramid.
         if (!this.isCardInBounds(row, card)) {
-            throw new Error(
-                "The given card index is out of bounds for the given row.");
+            throw new OutOfBoundsError(
+                "The given card index is out of bounds for the given row.", [{row: row, card: card}]);
         }
         // Checks if the given draw index is in bounds for the number of draw cards.
         if (drawIndex >= this.draws.length || drawIndex < 0) {
-            throw new Error("The given draw index is out of bounds.");
+            throw new OutOfBoundsError("The given draw index is out of bounds.", [{row: -1, card: drawIndex}]);
         }
         // Checks if the given card is null.
         if (this.getCardAt(row, card) == null) {
-            throw new Error("No card at the given index: "+ row+ ", " + card+".");
+            throw new EmptyPositionError("No card at the given index: "+ row+ ", " + card+".",
+                [{row: row, card: card}]);
         }
         if (this.draws[drawIndex] == null) {
-            throw new Error("No card at the given index: "+ drawIndex +".");
+            throw new EmptyPositionError("No card at the given index: "+ drawIndex +".",
+                [{row: -1, card: drawIndex}]);
         }
         // Checks if the given draw card and pyramid card add up to the removal value.
         if (this.getCardAt(row, card).getValue() + this.draws[drawIndex].getValue()
             != this.removalValue) {
-            throw new Error("The given cards do not sum to a value of 13, "
-                + "and therefore cannot be removed.");
+            throw new WrongSumError("The given cards do not sum to a value of " + this.removalValue
+                + ", and therefore cannot be removed.", [{row: -1, card: drawIndex}, {row: row, card: card}],
+                [this.draws[drawIndex], this.getCardAt(row, card)], this.removalValue);
         }
         // Checks if the given pyramid card is covered.
         if (this.isCovered(row, card)) {
-            throw new Error("The card at the given index is covered and therefore "
-                + "cannot be removed.");
+            throw new CardCoveredError([{row: row, card: card}]);
         }
 
+        let scoreBefore: number = this.getScore();
+        let cards: Array<Card> = [this.draws[drawIndex], this.pyramid[row][card]];
+        let move: Move = {type: MoveType.REMOVE_USING_DRAW, drawIndex: drawIndex, row: row, card: card};
+        this.recordMove(move);
         // Sets pyramid card to null and discards the given draw card.
         this.pyramid[row][card] = null;
-        this.discardDraw(drawIndex);
+        let drawEvents: Array<GameEvent> = this.replaceDraw(drawIndex);
+        this.emit({type: GameEventType.CARDS_REMOVED, move: move, cards: cards});
+        drawEvents.forEach(this.emit, this);
+        this.emitAfterMove(scoreBefore);
     }
 
     /**
-     * Discards an individual card from the draw pile.
+     * Discards an individual card from the draw pile to the waste.
      *
      * @param drawIndex the card to be discarded
      * @throws Error if the index is invalid or no card is present there.
@@ -234,23 +464,281 @@ import {GameState} from "./GameState";
 
         // Checks if the given drawIndex is in bounds for the length of draws.
         if (drawIndex < 0 || drawIndex >= this.draws.length) {
-            throw new Error("Index does not exist in the draw pile.");
+            throw new OutOfBoundsError("Index does not exist in the draw pile.", [{row: -1, card: drawIndex}]);
         }
         // Checks if there is a card at the given index.
         if (this.draws[drawIndex] == null) { //should deal with 0 index 0 length
-            throw new Error("There is no card at this index.");
+            throw new EmptyPositionError("There is no card at this index.", [{row: -1, card: drawIndex}]);
         }
-        // removes the given card
-        //delete this.draws[drawIndex];
-        // replaces the card absent in draws if there is one available
-        if (this.stock.length > 0) {
-            this.draws[drawIndex] = (this.stock[0])
-            this.stock.shift();
-        } else {
-            this.draws[drawIndex] = null;
-              //  this.draws.push(null);
+        let scoreBefore: number = this.getScore();
+        let discarded: Card = this.draws[drawIndex];
+        this.recordMove({type: MoveType.DISCARD_DRAW, drawIndex: drawIndex});
+        this.waste.push(discarded);
+        let drawEvents: Array<GameEvent> = this.replaceDraw(drawIndex);
+        this.emit({type: GameEventType.DRAW_DISCARDED, drawIndex: drawIndex, card: discarded,
+            wasteSize: this.waste.length});
+        drawEvents.forEach(this.emit, this);
+        this.emitAfterMove(scoreBefore);
+    }
+
+    /**
+     * Makes the given move, using whichever of {@link remove}, {@link removeTwo}, {@link
+     * removeUsingDraw} and {@link discardDraw} matches its type.
+     *
+     * @param move the move to be made
+     * @throws PyramidSolitaireError if the move is invalid, of the kind telling why
+     * @throws Error if the game has not yet been started
+     */
+    makeMove(move: Move): void {
+        switch (move.type) {
+            case MoveType.REMOVE:
+                this.remove(move.row, move.card);
+                break;
+            case MoveType.REMOVE_TWO:
+                this.removeTwo(move.row1, move.card1, move.row2, move.card2);
+                break;
+            case MoveType.REMOVE_USING_DRAW:
+                this.removeUsingDraw(move.drawIndex, move.row, move.card);
+                break;
+            case MoveType.DISCARD_DRAW:
+                this.discardDraw(move.drawIndex);
+                break;
         }
+    }
+
+    /**
+     * Undoes the most recent move of this game, restoring the pyramid, the draw cards and the order
+     * of the stock to exactly what they were before that move was made.
+     *
+     * @throws Error if there is no move to undo
+     * @throws Error if the game has not yet been started
+     */
+    undo(): void {
+        // Checks if this game has been started.
+        this.checkStarted();
 
+        // Checks if there is a move to undo.
+        if (!this.canUndo()) {
+            throw new Error("There are no moves to undo.");
+        }
+        let scoreBefore: number = this.getScore();
+        this.redoHistory.push(this.createSnapshot());
+        this.restoreSnapshot(this.undoHistory.pop());
+        if (this.recording != null) {
+            this.undoneMoves.push(this.recording.moves.pop());
+        }
+        this.emitRestored(scoreBefore);
+    }
+
+    /**
+     * Makes the most recently undone move of this game again. Any move made after an undo discards
+     * the moves that could have been redone.
+     *
+     * @throws Error if there is no move to redo
+     * @throws Error if the game has not yet been started
+     */
+    redo(): void {
+        // Checks if this game has been started.
+        this.checkStarted();
+
+        // Checks if there is a move to redo.
+        if (!this.canRedo()) {
+            throw new Error("There are no moves to redo.");
+        }
+        let scoreBefore: number = this.getScore();
+        this.undoHistory.push(this.createSnapshot());
+        this.restoreSnapshot(this.redoHistory.pop());
+        if (this.recording != null) {
+            this.recording.moves.push(this.undoneMoves.pop());
+        }
+        this.emitRestored(scoreBefore);
+    }
+
+    /**
+     * Returns whether there is a move in this game which can be undone.
+     *
+     * @return whether {@link undo} can be called
+     */
+    canUndo(): boolean {
+        return this.undoHistory.length > 0;
+    }
+
+    /**
+     * Returns whether there is an undone move in this game which can be made again.
+     *
+     * @return whether {@link redo} can be called
+     */
+    canRedo(): boolean {
+        return this.redoHistory.length > 0;
+    }
+
+    /**
+     * Returns every move which can currently be made in this game: each uncovered pyramid card with
+     * the removal value by itself, each pair of pyramid cards which may be removed together and each
+     * pair of a draw card and an uncovered pyramid card which sum to the removal value, and the
+     * discarding of each draw card. Pairs are only listed once, with the card nearest the top of the
+     * pyramid first.
+     *
+     * @return the legal moves of this game, in the order described above
+     * @throws Error if the game hasn't been started yet
+     */
+    getLegalMoves(): Array<Move> {
+        // Checks if this game has been started.
+        this.checkStarted();
+
+        let singles: Array<Move> = new Array<Move>();
+        let pairs: Array<Move> = new Array<Move>();
+        let drawPairs: Array<Move> = new Array<Move>();
+        let discards: Array<Move> = new Array<Move>();
+        let uncovered: Array<Array<number>> = this.getUncoveredPositions();
+        let selectable: Array<Array<number>> = this.getSelectablePositions();
+
+        // the pyramid cards paired with each other
+        for (let first = 0; first < selectable.length; first++) {
+            let row: number = selectable[first][0];
+            let card: number = selectable[first][1];
+            for (let second = first + 1; second < selectable.length; second++) {
+                let otherRow: number = selectable[second][0];
+                let otherCard: number = selectable[second][1];
+                if (this.pyramid[row][card].getValue() + this.pyramid[otherRow][otherCard].getValue()
+                    == this.removalValue && this.canRemovePair(row, card, otherRow, otherCard)) {
+                    pairs.push({type: MoveType.REMOVE_TWO, row1: row, card1: card,
+                        row2: otherRow, card2: otherCard});
+                }
+            }
+        }
+
+        for (let first = 0; first < uncovered.length; first++) {
+            let row: number = uncovered[first][0];
+            let card: number = uncovered[first][1];
+            let value: number = this.pyramid[row][card].getValue();
+            // the card by itself
+            if (value == this.removalValue) {
+                singles.push({type: MoveType.REMOVE, row: row, card: card});
+            }
+            // the card paired with a draw card
+            for (let drawIndex = 0; drawIndex < this.draws.length; drawIndex++) {
+                if (this.draws[drawIndex] != null
+                    && value + this.draws[drawIndex].getValue() == this.removalValue) {
+                    drawPairs.push({type: MoveType.REMOVE_USING_DRAW, drawIndex: drawIndex,
+                        row: row, card: card});
+                }
+            }
+        }
+
+        // every draw card may be discarded
+        for (let drawIndex = 0; drawIndex < this.draws.length; drawIndex++) {
+            if (this.draws[drawIndex] != null) {
+                discards.push({type: MoveType.DISCARD_DRAW, drawIndex: drawIndex});
+            }
+        }
+        return singles.concat(pairs, drawPairs, discards);
+    }
+
+    /**
+     * Returns the position of every card which can currently be removed: each uncovered pyramid
+     * card and each draw card which has at least one card to be removed with, and each pyramid card
+     * with the removal value, such as a King, which can be removed by itself. Draw cards are not
+     * playable just because they can be discarded.
+     *
+     * @return the positions of the playable cards, the pyramid from the top row down first and
+     * then the draw cards, each listed once
+     * @throws Error if the game hasn't been started yet
+     */
+    getPlayablePositions(): Array<CardPosition> {
+        // Checks if this game has been started.
+        this.checkStarted();
+
+        let playable: Array<Array<boolean>> = this.pyramid.map(function (row) {
+            return row.map(function () {
+                return false;
+            });
+        });
+        let playableDraws: Array<boolean> = this.draws.map(function () {
+            return false;
+        });
+        // marks the cards used by every legal removal
+        this.getLegalMoves().forEach(function (move) {
+            switch (move.type) {
+                case MoveType.REMOVE:
+                    playable[move.row][move.card] = true;
+                    break;
+                case MoveType.REMOVE_TWO:
+                    playable[move.row1][move.card1] = true;
+                    playable[move.row2][move.card2] = true;
+                    break;
+                case MoveType.REMOVE_USING_DRAW:
+                    playableDraws[move.drawIndex] = true;
+                    playable[move.row][move.card] = true;
+                    break;
+            }
+        });
+
+        let positions: Array<CardPosition> = new Array<CardPosition>();
+        for (let row = 0; row < playable.length; row++) {
+            for (let card = 0; card < playable[row].length; card++) {
+                if (playable[row][card]) {
+                    positions.push({row: row, card: card});
+                }
+            }
+        }
+        for (let drawIndex = 0; drawIndex < playableDraws.length; drawIndex++) {
+            if (playableDraws[drawIndex]) {
+                positions.push({row: -1, card: drawIndex});
+            }
+        }
+        return positions;
+    }
+
+    /**
+     * Returns the recording of this game: the order in which its deck was dealt and every move made
+     * since, each with the time it was made. Moves which have been undone are left out, so that the
+     * recording always replays to the current state of the game. Games loaded with {@link fromJSON}
+     * have no recording, since the order of their deal is not saved.
+     *
+     * @return a copy of the recording of this game, or null if there is none
+     * @throws Error if the game hasn't been started yet
+     */
+    getRecording(): GameRecording {
+        // Checks if this game has been started.
+        this.checkStarted();
+
+        if (this.recording == null) {
+            return null;
+        }
+        return {...this.recording, deck: this.recording.deck.slice(), moves: this.recording.moves.slice()};
+    }
+
+    /**
+     * Returns the number of the current deal, which can be given as the seed of a new game to deal
+     * the same cards again, or -1 if the deck of this game was not shuffled or the game hasn't been
+     * started.
+     *
+     * @return the number of the deal, or -1
+     */
+    getDealNumber(): number {
+        return this.dealNumber;
+    }
+
+    /**
+     * Returns whether the given number is the number of a deal, meaning it is a whole number from 1
+     * to {@link MAX_DEAL_NUMBER}.
+     *
+     * @param dealNumber the number being checked
+     * @return whether the given number is a valid deal number
+     */
+    static isValidDealNumber(dealNumber: number): boolean {
+        return Number.isInteger(dealNumber) && dealNumber >= 1
+            && dealNumber <= AbstractPyramidSolitaire.MAX_DEAL_NUMBER;
+    }
+
+    /**
+     * Returns a randomly chosen deal number.
+     *
+     * @return a deal number from 1 to {@link MAX_DEAL_NUMBER}
+     */
+    static randomDealNumber(): number {
+        return Math.floor(Math.random() * AbstractPyramidSolitaire.MAX_DEAL_NUMBER) + 1;
     }
 
     /**
@@ -282,6 +770,69 @@ import {GameState} from "./GameState";
         return this.draws.length;
     }
 
+    /**
+     * Returns the number of cards left in the stock, which replace the draw cards as they are used.
+     *
+     * @return the number of cards in the stock
+     * @throws Error if the game hasn't been started yet
+     */
+    getStockSize(): number {
+        // Checks if this game has been started.
+        this.checkStarted();
+
+        return this.stock.length;
+    }
+
+    /**
+     * Returns the cards left in the stock, in the order in which they will replace the draw cards.
+     * The player is not normally shown these cards, but they are needed to analyse a deal.
+     *
+     * @return a copy of the stock
+     * @throws Error if the game hasn't been started yet
+     */
+    getStock(): Array<Card> {
+        // Checks if this game has been started.
+        this.checkStarted();
+
+        return this.stock.slice();
+    }
+
+    /**
+     * Returns the discarded draw cards, oldest first, which is the order in which they become the
+     * stock if the waste is turned over.
+     *
+     * @return a copy of the waste
+     * @throws Error if the game hasn't been started yet
+     */
+    getWaste(): Array<Card> {
+        // Checks if this game has been started.
+        this.checkStarted();
+
+        return this.waste.slice();
+    }
+
+    /**
+     * Returns the number of times the waste can still be turned over to become the stock.
+     *
+     * @return the number of redeals left
+     * @throws Error if the game hasn't been started yet
+     */
+    getRedealsLeft(): number {
+        // Checks if this game has been started.
+        this.checkStarted();
+
+        return this.redealsLeft;
+    }
+
+    /**
+     * Returns the value which a single card or a pair of cards must have to be removed.
+     *
+     * @return the removal value of this game
+     */
+    getRemovalValue(): number {
+        return this.removalValue;
+    }
+
     /**
      * Returns the width of the requested row, measured from the leftmost card to the rightmost card
      * (inclusive) as the game is initially dealt.
@@ -297,7 +848,7 @@ import {GameState} from "./GameState";
 
         // Checks if the row is in bounds for this game's pyramid.
         if (!this.isRowInBounds(row)) {
-            throw new Error("The given row is out of bounds.");
+            throw new OutOfBoundsError("The given row is out of bounds.", [{row: row, card: -1}]);
         }
         // returns the length of the given row
         return this.pyramid[row].length;
@@ -318,33 +869,24 @@ import {GameState} from "./GameState";
             return true;
         }
 
-        // checks if draws is empty
-        this.draws.forEach(function (value) {
-            if (value != null) {
-                return false;
-            }
+        // checks if any pyramid card can be removed, by itself, with another pyramid card or with a
+        // draw card.
+        let removals: Array<Move> = this.getLegalMoves().filter(function (move) {
+            return move.type !== MoveType.DISCARD_DRAW;
         });
-
-        let uncovered: Array<Card> = this.getUncovered();
-
-        // iterates over all the uncovered cards and checks
-        // if any of them evaluate to the removal value.
-        if (this.canBeRemoved(uncovered)) {
-            return false;
-        }
-
-        // iterates over all the uncovered cards and checks if any pair may add up to the removal value.
-        if (this.canAddToRemovalValue(uncovered)) {
+        if (removals.length > 0) {
             return false;
         }
 
-        //checks if there are cards in stock, and if we have draw space to access them.
-        return !(this.getNumDraw() > 0 && this.stock.length > 0);
+        //checks if there are cards in stock, or cards which can be turned over to become the
+        // stock, and if we have draw space to access them.
+        return !(this.getNumDraw() > 0 && (this.stock.length > 0
+            || (this.redealsLeft > 0 && this.waste.length > 0)));
     }
 
     /**
-     * Return the current score, which is the sum of the values of the cards remaining in the
-     * pyramid.
+     * Return the current score, as decided by the scoring policy of this game. By default this is
+     * the sum of the values of the cards remaining in the pyramid.
      *
      * @return the score
      * @throws IllegalStateException if the game hasn't been started yet
@@ -353,22 +895,274 @@ import {GameState} from "./GameState";
         // Checks if this game has started.
         this.checkStarted();
 
-        if (this.isGameWon()) {
-            return 0;
+        return this.scoring.score(this.scoringState(this.pyramid, this.moves, this.elapsed));
+    }
+
+    /**
+     * Returns whether this game has been won, as decided by the scoring policy of this game.
+     *
+     * @return whether the game has been won
+     * @throws Error if the game hasn't been started yet
+     */
+    hasWon(): boolean {
+        // Checks if this game has started.
+        this.checkStarted();
+
+        return this.scoring.isWon(this.scoringState(this.pyramid, this.moves, this.elapsed));
+    }
+
+    /**
+     * Returns the policy this game is scored by, which is chosen when the game is started.
+     *
+     * @return the scoring policy of this game
+     */
+    getScoringPolicy(): ScoringPolicy {
+        return this.scoring;
+    }
+
+    /**
+     * Returns the full state of this game in a versioned JSON format, which {@link fromJSON} can
+     * load to resume the game exactly as it is now. The history of moves is not included.
+     *
+     * @return the saved form of this game
+     */
+    toJSON(): SavedGame {
+        let self: AbstractPyramidSolitaire = this;
+        // a game which has not been started has no cards to save
+        if (this.gamestate == GameState.NOT_STARTED) {
+            return {
+                version: AbstractPyramidSolitaire.SAVE_VERSION,
+                gameType: this.getGameType(),
+                gamestate: this.gamestate,
+                pyramid: [],
+                draws: [],
+                stock: [],
+                waste: [],
+                redealsLeft: 0,
+                removalValue: this.removalValue,
+                deck: this.getDeckSpec(),
+                dealNumber: -1,
+                score: 0,
+                scoring: this.scoring.type,
+                moves: 0,
+                elapsed: 0
+            };
         }
+        return {
+            version: AbstractPyramidSolitaire.SAVE_VERSION,
+            gameType: this.getGameType(),
+            gamestate: this.gamestate,
+            pyramid: this.pyramid.map(function (row) {
+                return row.map(function (card) {
+                    return self.cardToJSON(card);
+                });
+            }),
+            draws: this.draws.map(function (card) {
+                return self.cardToJSON(card);
+            }),
+            stock: this.stock.map(function (card) {
+                return self.cardToJSON(card);
+            }),
+            waste: this.waste.map(function (card) {
+                return self.cardToJSON(card);
+            }),
+            redealsLeft: this.redealsLeft,
+            removalValue: this.removalValue,
+            deck: this.getDeckSpec(),
+            dealNumber: this.dealNumber,
+            score: this.getScore(),
+            scoring: this.scoring.type,
+            moves: this.moves,
+            elapsed: this.elapsed
+        };
+    }
 
-        // iterates through the results and adds up the values
-        let result: number = 0;
-        for (let row = 0 ; row < this.pyramid.length ; row++) {
-            for (let col = 0 ; col < this.pyramid[row].length; col++) {
-                if(this.pyramid[row][col] != null) {
-                    result = result + this.pyramid[row][col].getValue();
+    /**
+     * Replaces the state of this game with the game saved in the given data, as written by {@link
+     * toJSON}. The data is checked completely before anything is changed, so this game is left as
+     * it was if the data is invalid. The history of moves is cleared.
+     *
+     * @param data the saved game, already parsed from JSON
+     * @throws Error if the data is not a valid saved game for this kind of game, explaining why
+     */
+    fromJSON(data: any): void {
+        let self: AbstractPyramidSolitaire = this;
+        // Checks that the data is an object of a version that can be read.
+        if (data == null || typeof data !== "object") {
+            throw new Error("The saved game is not an object.");
+        }
+        if (!Number.isInteger(data.version) || data.version < 1
+            || data.version > AbstractPyramidSolitaire.SAVE_VERSION) {
+            throw new Error("The saved game has version " + data.version + ", but only versions 1 to "
+                + AbstractPyramidSolitaire.SAVE_VERSION + " can be loaded.");
+        }
+        // Checks that the game is of this kind, games saved before version 2 all being basic games.
+        let gameType: string = data.version >= 2 ? data.gameType : GameType.BASIC;
+        if (gameType !== this.getGameType()) {
+            throw new Error("The saved game is a " + gameType + " game, not a "
+                + this.getGameType() + " game.");
+        }
+        // Checks that the removal value is a positive whole number.
+        if (!Number.isInteger(data.removalValue) || data.removalValue <= 0) {
+            throw new Error("The saved removal value must be a positive whole number.");
+        }
+        // Checks the make-up of the deck, games saved before version 4 using the deck of this game.
+        let deckSpec: DeckSpec = data.version >= 4 ? data.deck : this.deckSpec;
+        try {
+            AbstractPyramidSolitaire.checkDeckSpec(deckSpec);
+        } catch (e) {
+            throw new Error("The saved deck is not valid. " + e.message);
+        }
+        deckSpec = {values: deckSpec.values.slice(), copies: deckSpec.copies};
+        // Checks the scoring, games saved before version 5 being scored by the sum of the pyramid.
+        let scoring: ScoringPolicy;
+        try {
+            scoring = ScoringPolicyCreator.create(data.version >= 5 ? data.scoring : ScoringType.PYRAMID_SUM);
+        } catch (e) {
+            throw new Error("The saved scoring is not valid. " + e.message);
+        }
+        let moves: number = data.version >= 5 ? data.moves : 0;
+        let elapsed: number = data.version >= 5 ? data.elapsed : 0;
+        if (!Number.isInteger(moves) || moves < 0 || !Number.isInteger(elapsed) || elapsed < 0) {
+            throw new Error("The saved number of moves and time played must be whole numbers of at least zero.");
+        }
+
+        // a game which had not been started is loaded as a game which has not been started
+        if (data.gamestate === GameState.NOT_STARTED) {
+            this.gamestate = GameState.NOT_STARTED;
+            this.removalValue = data.removalValue;
+            this.deckSpec = deckSpec;
+            this.scoring = scoring;
+            this.dealNumber = -1;
+            this.undoHistory = new Array<GameSnapshot>();
+            this.redoHistory = new Array<GameSnapshot>();
+            this.recording = null;
+            this.undoneMoves = new Array<RecordedMove>();
+            return;
+        }
+        if (data.gamestate !== GameState.STARTED) {
+            throw new Error("The saved game state " + data.gamestate + " is not known.");
+        }
+
+        // Checks that the pyramid, draws and stock are lists of valid cards.
+        if (!Array.isArray(data.pyramid) || !data.pyramid.every(Array.isArray)) {
+            throw new Error("The saved pyramid must be a list of rows of cards.");
+        }
+        if (!Array.isArray(data.draws) || !Array.isArray(data.stock)) {
+            throw new Error("The saved draw cards and stock must be lists of cards.");
+        }
+        // games saved before version 3 have no waste and no redeals
+        let savedWaste: Array<any> = data.version >= 3 ? data.waste : [];
+        let redealsLeft: number = data.version >= 3 ? data.redealsLeft : 0;
+        if (!Array.isArray(savedWaste)) {
+            throw new Error("The saved waste must be a list of cards.");
+        }
+        if (!Number.isInteger(redealsLeft) || redealsLeft < 0) {
+            throw new Error("The saved number of redeals left must be a whole number of at least zero.");
+        }
+        let pyramid: Array<Array<Card>> = data.pyramid.map(function (row: Array<any>) {
+            return row.map(function (card: any) {
+                return self.cardFromJSON(card, true);
+            });
+        });
+        let draws: Array<Card> = data.draws.map(function (card: any) {
+            return self.cardFromJSON(card, true);
+        });
+        let stock: Array<Card> = data.stock.map(function (card: any) {
+            return self.cardFromJSON(card, false);
+        });
+        let waste: Array<Card> = savedWaste.map(function (card: any) {
+            return self.cardFromJSON(card, false);
+        });
+        if (!this.isValidPyramidShape(pyramid)) {
+            throw new Error("The saved pyramid does not have the shape of a pyramid of this game.");
+        }
+
+        // Checks that every card comes from the deck of this game and is used only once.
+        let cards: Array<Card> = stock.concat(waste, draws.filter(function (card) {
+            return card != null;
+        }));
+        pyramid.forEach(function (row) {
+            row.forEach(function (card) {
+                if (card != null) {
+                    cards.push(card);
                 }
+            });
+        });
+        let unused: Array<Card> = AbstractPyramidSolitaire.buildDeck(deckSpec);
+        for (let index = 0; index < cards.length; index++) {
+            let deckIndex: number = unused.findIndex(function (card) {
+                return card.equals(cards[index]);
+            });
+            if (deckIndex == -1) {
+                throw new Error("The saved card " + cards[index].toString()
+                    + " is not in the deck or is used more than once.");
             }
+            unused.splice(deckIndex, 1);
         }
+
+        // Checks that the deal number and score agree with the rest of the game.
+        if (data.dealNumber !== -1 && !AbstractPyramidSolitaire.isValidDealNumber(data.dealNumber)) {
+            throw new Error("The saved deal number " + data.dealNumber + " is not valid.");
+        }
+        if (data.score !== scoring.score(this.scoringState(pyramid, moves, elapsed))) {
+            throw new Error("The saved score " + data.score + " does not match the saved pyramid.");
+        }
+
+        this.pyramid = pyramid;
+        this.draws = draws;
+        this.stock = stock;
+        this.waste = waste;
+        this.redealsLeft = redealsLeft;
+        this.removalValue = data.removalValue;
+        this.deckSpec = deckSpec;
+        this.dealNumber = data.dealNumber;
+        this.gamestate = GameState.STARTED;
+        this.scoring = scoring;
+        this.moves = moves;
+        this.elapsed = elapsed;
+        // the clock carries on from the last move
+        this.startTime = Date.now() - elapsed;
+        this.undoHistory = new Array<GameSnapshot>();
+        this.redoHistory = new Array<GameSnapshot>();
+        this.recording = null;
+        this.undoneMoves = new Array<RecordedMove>();
+        this.emitStarted(true);
+    }
+
+    /**
+     * Returns a copy of the pyramid of this game, row by row from the top, with null where a card
+     * has been removed.
+     *
+     * @return the rows of the pyramid
+     */
+    getPyramid(): Array<Array<Card>> {
+        let result: Array<Array<Card>> = new Array<Array<Card>>();
+        this.pyramid.forEach(function (row) {
+            let rowCopy: Array<Card> = new Array<Card>();
+            row.forEach(function (card) {
+                rowCopy.push(card);
+            })
+            result.push(rowCopy);
+        })
         return result;
     }
 
+    /**
+     * Returns the kind of game this is, which decides the rules it is played by.
+     *
+     * @return the kind of this game
+     */
+    abstract getGameType(): GameType;
+
+    /**
+     * Returns a copy of this game in its current state, which can be played without changing this
+     * game. The history of moves is not copied.
+     *
+     * @return a copy of this game
+     */
+    abstract copy(): AbstractPyramidSolitaire;
+
     /**
      * Returns the card at the specified coordinates.
      *
@@ -384,17 +1178,61 @@ import {GameState} from "./GameState";
 
         // Checks if the given row is in bounds for this game's pyramid.
         if (!this.isRowInBounds(row)) {
-            throw new Error("The given row index is out of bounds.");
+            throw new OutOfBoundsError("The given row index is out of bounds.", [{row: row, card: card}]);
         }
         // Checks if the given card is in bounds for this game's pyramid.
         if (!this.isCardInBounds(row, card)) {
-            throw new Error("The given card index is out of bounds.");
+            throw new OutOfBoundsError("The given card index is out of bounds.", [{row: row, card: card}]);
         }
 
         // returns the card at the given index
         return this.pyramid[row][card];
     }
 
+    /**
+     * Returns whether the player may select the pyramid card at the given position to remove it,
+     * by itself or as part of a pair. In this game that means there is a card at the position and it
+     * is not covered.
+     *
+     * @param row  row of the desired card (0-indexed from the top)
+     * @param card column of the desired card (0-indexed from the left)
+     * @return whether the card at the given position can be selected
+     * @throws Error if the coordinates are invalid
+     * @throws Error if the game hasn't been started yet
+     */
+    canBeSelected(row: number, card: number): boolean {
+        return this.getCardAt(row, card) != null && !this.isCovered(row, card);
+    }
+
+    /**
+     * Returns whether the cards at the two given pyramid positions could ever be removed together,
+     * whatever their values and whatever cards are left around them. In this game two cards can
+     * never be removed together if one of them covers the other, directly or through other cards,
+     * since one of them will always be covered.
+     *
+     * @param row1  row of the first position
+     * @param card1 card of the first position
+     * @param row2  row of the second position
+     * @param card2 card of the second position
+     * @return whether the two positions could be removed as a pair
+     */
+    canPairPositions(row1: number, card1: number, row2: number, card2: number): boolean {
+        return !this.isBeneath(row1, card1, row2, card2) && !this.isBeneath(row2, card2, row1, card1);
+    }
+
+    /**
+     * Returns whether the given position is one at which a card is dealt, rather than a gap left
+     * between the cards of a row. Every position within the bounds of a row of a single pyramid is
+     * dealt.
+     *
+     * @param row  row of the position (0-indexed from the top)
+     * @param card column of the position (0-indexed from the left)
+     * @return whether a card is dealt at the given position
+     */
+    isLayoutPosition(row: number, card: number): boolean {
+        return this.isCardInBounds(row, card);
+    }
+
     /**
      * Returns the currently available draw cards. There should be at most {@link
         * PyramidSolitaireModel#getNumDraw} cards (the number specified when the game started) -- there
@@ -426,12 +1264,12 @@ import {GameState} from "./GameState";
     protected isCovered(row: number, card: number): boolean {
         // Checks if the given row index is in bounds for this game's pyramid.
         if (row >= this.pyramid.length || row < 0) {
-            throw new Error("The given row index is out of bounds.");
+            throw new OutOfBoundsError("The given row index is out of bounds.", [{row: row, card: card}]);
         }
         // Checks if the given card index is in bounds for this game's pyramid.
         if (card >= this.pyramid[row].length || card < 0) {
-            throw new Error("The given card index is out of bounds"
-                + " for the given row.");
+            throw new OutOfBoundsError("The given card index is out of bounds"
+                + " for the given row.", [{row: row, card: card}]);
         }
         // Checks if the card at the given index is in the bottom row.
         if (row == this.pyramid.length - 1) {
@@ -443,15 +1281,73 @@ import {GameState} from "./GameState";
         }
     }
 
+    /**
+     * Returns whether the cards at the two given positions, which are both in the pyramid, are
+     * exposed enough to be removed together. In this game that means neither of them is covered.
+     *
+     * @param row1  row of the first card
+     * @param card1 card of the first card
+     * @param row2  row of the second card
+     * @param card2 card of the second card
+     * @return whether the two cards can be removed as a pair, ignoring their values
+     */
+    protected canRemovePair(row1: number, card1: number, row2: number, card2: number): boolean {
+        return !this.isCovered(row1, card1) && !this.isCovered(row2, card2);
+    }
+
+    /**
+     * Returns whether the second position is below the first and covers it, directly or through
+     * the positions between them.
+     *
+     * @param row       the row of the covered position
+     * @param card      the card of the covered position
+     * @param belowRow  the row of the position below
+     * @param belowCard the card of the position below
+     * @return whether the second position is beneath the first
+     */
+    protected isBeneath(row: number, card: number, belowRow: number, belowCard: number): boolean {
+        return belowRow > row && belowCard >= card && belowCard <= card + (belowRow - row);
+    }
+
     /**
      * Checks whether the given deck is valid for this game of pyramid solitaire. Meaning that the
-     * given deck has no repeated cards, has no null cards, and is the same size as the valid deck
-     * produced by this class.
+     * given deck has no null cards, and has exactly the cards of the valid deck produced by this
+     * class, each as many times as it is in that deck.
      *
      * @param deck the List of cards that we are checking for validity
      * @return whether the given list is a valid deck for this game
      */
-    protected abstract isValidDeck(deck: Array<Card>): boolean;
+    protected isValidDeck(deck: Array<Card>): boolean {
+        // checks that the given deck is of the same size as a valid deck for this game
+        let unused: Array<Card> = this.getDeck();
+        if (deck.length !== unused.length) {
+            return false;
+        }
+        // checks that every card is in the deck of this game, each being used only as often as it
+        // is in that deck
+        for (let index = 0; index < deck.length; index += 1) {
+            if (deck[index] == null) {
+                return false;
+            }
+            let unusedIndex: number = unused.findIndex(function (card) {
+                return card.equals(deck[index]);
+            });
+            if (unusedIndex === -1) {
+                return false;
+            }
+            unused.splice(unusedIndex, 1);
+        }
+        return true;
+    }
+
+    /**
+     * Returns whether the given rows have the shape of a pyramid of this game as it is initially
+     * dealt, with each row as wide as it would be if it were dealt now.
+     *
+     * @param pyramid the rows being checked
+     * @return whether the given rows could be the pyramid of this game
+     */
+    protected abstract isValidPyramidShape(pyramid: Array<Array<Card>>): boolean;
 
     /**
      * Returns whether this game is won, meaning there are no cards left in the pyramid, or rather
@@ -472,6 +1368,14 @@ import {GameState} from "./GameState";
         return true;
     }
 
+    /**
+     * Returns the number of cards dealt to a pyramid of the given number of rows.
+     *
+     * @param numRows the number of rows of the pyramid
+     * @return the number of cards in the pyramid
+     */
+    protected abstract pyramidSize(numRows: number): number;
+
     /**
      * Returns whether a deck of the given size could be used to deal a pyramid of the given number of
      * rows, with the given number of draws.
@@ -481,7 +1385,7 @@ import {GameState} from "./GameState";
      * @param numDraws the number of draws in the game in question
      * @return if a deck of the given size has enough cards to deal
      */
-    protected abstract isEnoughCards(deckSize: number, numRows: number, numDraws: number): boolean;
+    abstract isEnoughCards(deckSize: number, numRows: number, numDraws: number): boolean;
 
     /**
      * Returns whether the given row index is in bounds for this game's pyramid. Meaning, a row of the
@@ -508,58 +1412,135 @@ import {GameState} from "./GameState";
     }
 
     /**
-     * Returns whether any of the cards in the given list can be removed by themselves, assuming all
-     * the given cards are uncovered (can be removed) and that in order to be removed the card value
-     * must match the removal value.
+     * Returns a deck made up as described by the given specification, suit by suit and value by
+     * value, with the copies one after the other.
      *
-     * @param cards the list of cards being checked
-     * @return whether the given list of cards contains cards which can be removed
+     * @param deckSpec the make-up of the deck
+     * @return the cards of the deck
      */
-    private canBeRemoved(cards: Array<Card>): boolean {
-        // iterates over all of the cards in the given list and
-        // checks if they have a value equal to the removal value
+    private static buildDeck(deckSpec: DeckSpec): Array<Card> {
+        let deck: Array<Card> = new Array<Card>();
+        // creates an array containing all of the suits
+        let suits: Array<Suit> = new Array<Suit>();
+        suits.push(Suit.HEART);
+        suits.push(Suit.SPADE);
+        suits.push(Suit.CLUB);
+        suits.push(Suit.DIAMOND);
+        // Creates cards with every value and suit, as many times as there are copies
+        for (let copy = 0; copy < deckSpec.copies; copy++) {
+            suits.forEach(function (suit) {
+                deckSpec.values.forEach(function (value) {
+                    deck.push(new Card(suit, value));
+                });
+            });
+        }
+        return deck;
+    }
 
-        for (let index = 0; index < cards.length ; index++) {
-            if (cards[index].getValue() == this.removalValue) {
-                return true;
+    /**
+     * Checks that the given deck specification describes a deck, errors if not.
+     *
+     * @param deckSpec the make-up of a deck
+     * @throws Error if the values are not distinct positive whole numbers, or the number of copies
+     *               is not a positive whole number
+     */
+    private static checkDeckSpec(deckSpec: DeckSpec): void {
+        if (deckSpec == null || !Array.isArray(deckSpec.values) || deckSpec.values.length === 0) {
+            throw new Error("A deck must have at least one value.");
+        }
+        deckSpec.values.forEach(function (value, index) {
+            if (!Number.isInteger(value) || value <= 0) {
+                throw new Error("The values of a deck must be positive whole numbers.");
+            }
+            if (deckSpec.values.indexOf(value) !== index) {
+                throw new Error("The value " + value + " is in the deck more than once.");
             }
+        });
+        if (!Number.isInteger(deckSpec.copies) || deckSpec.copies <= 0) {
+            throw new Error("The number of copies of a deck must be a positive whole number.");
         }
-        return false;
     }
 
     /**
-     * Returns whether any two cards in the given list of cards can sum to the removal value of this
-     * game.
+     * Returns the sum of the values of the cards in the given pyramid.
      *
-     * @param cards list of cards to be checked
-     * @return whether there exists in the list a pair of cars that sum to the removal value
+     * @param pyramid the pyramid being added up
+     * @return the total value of the cards in the pyramid
      */
-    private canAddToRemovalValue(cards: Array<Card>): boolean {
-        // iterates over every possible pairing of cards in the given list of cards
-        for (let card1 = 0; card1 < cards.length; card1 += 1) {
-            for (let card2 = 0; card2 < cards.length; card2 += 1) {
-                if (card1 != card2 &&
-                    cards[card1].getValue() + cards[card2].getValue() == this.removalValue) {
-                    return true;
+    private sumOf(pyramid: Array<Array<Card>>): number {
+        // iterates through the results and adds up the values
+        let result: number = 0;
+        for (let row = 0 ; row < pyramid.length ; row++) {
+            for (let col = 0 ; col < pyramid[row].length; col++) {
+                if(pyramid[row][col] != null) {
+                    result = result + pyramid[row][col].getValue();
                 }
             }
         }
-        return false;
+        return result;
+    }
+
+    /**
+     * Returns the progress of a game with the given pyramid, number of moves and time played, which
+     * its score is decided by.
+     *
+     * @param pyramid the pyramid of the game
+     * @param moves   the number of moves made
+     * @param elapsed the time from the deal to the last move, in milliseconds
+     * @return the progress of the game
+     */
+    private scoringState(pyramid: Array<Array<Card>>, moves: number, elapsed: number): ScoringState {
+        let cardsLeft: number = 0;
+        pyramid.forEach(function (row) {
+            row.forEach(function (card) {
+                if (card != null) {
+                    cardsLeft += 1;
+                }
+            });
+        });
+        let cardsDealt: number = this.pyramidSize(pyramid.length);
+        return {pyramidSum: this.sumOf(pyramid), cardsDealt: cardsDealt, cardsCleared: cardsDealt - cardsLeft,
+            cleared: cardsLeft === 0, moves: moves, elapsed: elapsed};
+    }
+
+    /**
+     * Returns the saved form of the given card, or null if there is no card.
+     *
+     * @param card the card to be saved
+     * @return the saved form of the card, or null
+     */
+    private cardToJSON(card: Card): SavedCard {
+        return card == null ? null : card.toJSON();
     }
 
     /**
-     * Returns a list of the uncovered cards in this game's pyramid, meaning all of the cards that do
-     * not have two cards directly below them in the pyramid.
+     * Returns the card saved in the given data.
      *
-     * @return list of all uncovered cards in this game's pyramid
+     * @param data      the saved form of the card
+     * @param allowNull whether the data may be null, meaning there is no card
+     * @return the card, or null if the data is null and that is allowed
+     * @throws Error if the data is not a valid saved card
      */
-    private getUncovered(): Array<Card> {
-        let uncovered: Array<Card> = new Array<Card>();
-        // iterates over all of the cards in the pyramid and adds the uncovered ones
+    private cardFromJSON(data: any, allowNull: boolean): Card {
+        if (data == null && allowNull) {
+            return null;
+        }
+        return Card.fromJSON(data);
+    }
+
+    /**
+     * Returns the positions of the uncovered cards in this game's pyramid, from the top row down and
+     * left to right, each as a pair of its row and card index.
+     *
+     * @return the positions of all uncovered cards in this game's pyramid
+     */
+    private getUncoveredPositions(): Array<Array<number>> {
+        let uncovered: Array<Array<number>> = new Array<Array<number>>();
+        // iterates over all of the cards in the pyramid and adds the positions of the uncovered ones
         for (let row = 0; row < this.pyramid.length; row += 1) {
             for (let card = 0; card < this.pyramid[row].length; card += 1) {
-                if (this.getCardAt(row, card) != null && !this.isCovered(row, card)) {
-                    uncovered.push(this.getCardAt(row, card));
+                if (this.pyramid[row][card] != null && !this.isCovered(row, card)) {
+                    uncovered.push([row, card]);
                 }
             }
         }
@@ -567,13 +1548,31 @@ import {GameState} from "./GameState";
     }
 
     /**
-     * Checks if this game has been started, if not, throws an IllegalStateException.
+     * Returns the positions of the cards in this game's pyramid which can be selected, from the top
+     * row down and left to right, each as a pair of its row and card index.
+     *
+     * @return the positions of all the selectable cards in this game's pyramid
+     */
+    private getSelectablePositions(): Array<Array<number>> {
+        let selectable: Array<Array<number>> = new Array<Array<number>>();
+        for (let row = 0; row < this.pyramid.length; row += 1) {
+            for (let card = 0; card < this.pyramid[row].length; card += 1) {
+                if (this.canBeSelected(row, card)) {
+                    selectable.push([row, card]);
+                }
+            }
+        }
+        return selectable;
+    }
+
+    /**
+     * Checks if this game has been started, if not, throws a GameNotStartedError.
      *
-     * @throws IllegalStateException when game has not been started
+     * @throws GameNotStartedError when game has not been started
      */
     protected checkStarted(): void {
         if (this.gamestate == GameState.NOT_STARTED) {
-            throw new Error("The game has not yet started.");
+            throw new GameNotStartedError();
         }
     }
 
@@ -592,6 +1591,213 @@ import {GameState} from "./GameState";
         return true;
     }
 
+    /**
+     * Creates a copy of the current pyramid, draw cards, stock and waste of this game.
+     *
+     * @return a snapshot of this game which shares no lists with this game
+     */
+    protected createSnapshot(): GameSnapshot {
+        let pyramidCopy: Array<Array<Card>> = new Array<Array<Card>>();
+        this.pyramid.forEach(function (row) {
+            pyramidCopy.push(row.slice());
+        });
+        return {
+            pyramid: pyramidCopy,
+            draws: this.draws.slice(),
+            stock: this.stock.slice(),
+            waste: this.waste.slice(),
+            redealsLeft: this.redealsLeft
+        };
+    }
+
+    /**
+     * Sets the pyramid, draw cards, stock and waste of this game to copies of those in the given
+     * snapshot.
+     *
+     * @param snapshot the snapshot to be restored
+     */
+    protected restoreSnapshot(snapshot: GameSnapshot): void {
+        this.pyramid = new Array<Array<Card>>();
+        for (let row = 0; row < snapshot.pyramid.length; row++) {
+            this.pyramid.push(snapshot.pyramid[row].slice());
+        }
+        this.draws = snapshot.draws.slice();
+        this.stock = snapshot.stock.slice();
+        this.waste = snapshot.waste.slice();
+        this.redealsLeft = snapshot.redealsLeft;
+    }
+
+    /**
+     * Sets the state of this game to a copy of the state of the given game, without its history of
+     * moves, so that the two games can then be played independently.
+     *
+     * @param other the game being copied
+     */
+    protected copyStateFrom(other: AbstractPyramidSolitaire): void {
+        this.gamestate = other.gamestate;
+        this.removalValue = other.removalValue;
+        this.deckSpec = other.deckSpec;
+        this.dealNumber = other.dealNumber;
+        this.scoring = other.scoring;
+        this.moves = other.moves;
+        this.elapsed = other.elapsed;
+        this.startTime = other.startTime;
+        if (other.gamestate !== GameState.NOT_STARTED) {
+            this.restoreSnapshot(other.createSnapshot());
+        }
+        this.undoHistory = new Array<GameSnapshot>();
+        this.redoHistory = new Array<GameSnapshot>();
+        this.recording = null;
+        this.undoneMoves = new Array<RecordedMove>();
+    }
+
+    /**
+     * Saves the current state of this game so that the given move, which is about to be made, can be
+     * undone, adds the move to the recording of this game, and forgets any moves that had been
+     * undone.
+     *
+     * @param move the move about to be made
+     */
+    private recordMove(move: Move): void {
+        this.undoHistory.push(this.createSnapshot());
+        this.redoHistory = new Array<GameSnapshot>();
+        if (this.recording != null) {
+            this.recording.moves.push({move: move, time: Date.now()});
+        }
+        this.undoneMoves = new Array<RecordedMove>();
+        this.moves += 1;
+        this.elapsed = Date.now() - this.startTime;
+    }
+
+    /**
+     * Starts a new recording of this game, which has just been dealt, with the cards in the order
+     * they were dealt.
+     *
+     * @param numRows the number of rows in the pyramid
+     * @param numDraw the number of draw cards
+     * @param redeals the number of times the waste can be turned over
+     */
+    private startRecording(numRows: number, numDraw: number, redeals: number): void {
+        let deck: Array<SavedCard> = new Array<SavedCard>();
+        this.pyramid.forEach(function (row) {
+            row.forEach(function (card) {
+                // the gaps between the cards of a row are not dealt
+                if (card != null) {
+                    deck.push(card.toJSON());
+                }
+            });
+        });
+        this.draws.concat(this.stock).forEach(function (card) {
+            deck.push(card.toJSON());
+        });
+        this.recording = {
+            gameType: this.getGameType(),
+            deck: deck,
+            numRows: numRows,
+            numDraw: numDraw,
+            redeals: redeals,
+            removalValue: this.removalValue,
+            deckSpec: this.getDeckSpec(),
+            scoring: this.scoring.type,
+            dealNumber: this.dealNumber,
+            startTime: Date.now(),
+            moves: new Array<RecordedMove>()
+        };
+        this.undoneMoves = new Array<RecordedMove>();
+    }
+
+    /**
+     * Replaces the draw card at the given index with the next card in the stock, or with null if
+     * the stock is empty. If the stock has run out the waste is turned over to become the new stock
+     * first, if there is a redeal left.
+     *
+     * @param drawIndex the index of the draw card to be replaced
+     * @return the events of the replacement, to be told to the subscribers once the move is complete
+     */
+    private replaceDraw(drawIndex: number): Array<GameEvent> {
+        let redealt: boolean = false;
+        // turns the waste over, the card discarded first becoming the top of the stock
+        if (this.stock.length == 0 && this.redealsLeft > 0 && this.waste.length > 0) {
+            this.stock = this.waste;
+            this.waste = new Array<Card>();
+            this.redealsLeft -= 1;
+            redealt = true;
+        }
+        let hadStock: boolean = this.stock.length > 0;
+        // replaces the card absent in draws if there is one available
+        if (this.stock.length > 0) {
+            this.draws[drawIndex] = this.stock[0];
+            this.stock.shift();
+        } else {
+            this.draws[drawIndex] = null;
+        }
+
+        let events: Array<GameEvent> = new Array<GameEvent>();
+        events.push({type: GameEventType.DRAW_REPLENISHED, drawIndex: drawIndex,
+            card: this.draws[drawIndex], stockSize: this.stock.length, wasteSize: this.waste.length,
+            redealsLeft: this.redealsLeft, redealt: redealt});
+        if (hadStock && this.stock.length === 0) {
+            events.push({type: GameEventType.STOCK_EXHAUSTED, wasteSize: this.waste.length,
+                redealsLeft: this.redealsLeft});
+        }
+        return events;
+    }
+
+    /**
+     * Tells every subscriber of this game about the given event.
+     *
+     * @param event the event which has happened
+     */
+    private emit(event: GameEvent): void {
+        // copies the subscribers so that a listener may unsubscribe while being told
+        this.listeners.slice().forEach(function (listener) {
+            listener(event);
+        });
+    }
+
+    /**
+     * Tells the subscribers of this game that it has been dealt or loaded.
+     *
+     * @param resumed whether the game was loaded from a saved game
+     */
+    private emitStarted(resumed: boolean): void {
+        this.emit({type: GameEventType.GAME_STARTED, pyramid: this.getPyramid(),
+            draws: this.getDrawCards(), stockSize: this.stock.length, wasteSize: this.waste.length,
+            redealsLeft: this.redealsLeft, dealNumber: this.dealNumber, score: this.getScore(),
+            removalValue: this.removalValue, deckSpec: this.getDeckSpec(), resumed: resumed});
+    }
+
+    /**
+     * Tells the subscribers of this game that it has been returned to another state by an undo or a
+     * redo, followed by the change of the score and the end of the game if there were any.
+     *
+     * @param scoreBefore the score before the state was restored
+     */
+    private emitRestored(scoreBefore: number): void {
+        this.emit({type: GameEventType.STATE_RESTORED, pyramid: this.getPyramid(),
+            draws: this.getDrawCards(), stockSize: this.stock.length, wasteSize: this.waste.length,
+            redealsLeft: this.redealsLeft, score: this.getScore()});
+        this.emitAfterMove(scoreBefore);
+    }
+
+    /**
+     * Tells the subscribers of this game about the change of the score made by a move and about the
+     * end of the game, if there were any.
+     *
+     * @param scoreBefore the score before the move
+     */
+    private emitAfterMove(scoreBefore: number): void {
+        let score: number = this.getScore();
+        if (score !== scoreBefore) {
+            this.emit({type: GameEventType.SCORE_CHANGED, score: score, previousScore: scoreBefore});
+        }
+        // deciding whether the game is over means finding every legal move, so it is only done when
+        // someone is listening
+        if (this.listeners.length > 0 && this.isGameOver()) {
+            this.emit({type: GameEventType.GAME_OVER, won: this.hasWon(), score: score});
+        }
+    }
+
     /**
      * Checks if the removal of the cards with the given indexes is possible, errors if not.
      */
@@ -599,28 +1805,36 @@ import {GameState} from "./GameState";
         // Checks if this game has been started.
         this.checkStarted();
         // Checks if the given rows are within the bounds of this game's pyramid.
+        let positions: Array<CardPosition> = [{row: row1, card: card1}, {row: row2, card: card2}];
         if (!this.isRowInBounds(row1) || !this.isRowInBounds(row2)) {
-            throw new Error("The given row is out of bounds.");
+            throw new OutOfBoundsError("The given row is out of bounds.", positions);
         }
         // Checks if the given cards are within the bounds of the game's pyramid.
         if (!this.isCardInBounds(row1, card1) || !this.isCardInBounds(row2, card2)) {
-            throw new Error("The given card is out of bounds for the given row.");
+            throw new OutOfBoundsError("The given card is out of bounds for the given row.", positions);
+        }
+        // Checks if the given positions are the same card, which cannot be paired with itself.
+        if (row1 === row2 && card1 === card2) {
+            throw new SameCardError(positions[0]);
         }
         // Checks if either of the given cards is null.
         if (this.getCardAt(row1, card1) == null) {
-            throw new Error("No card at the given index, " + row1 + ", " + card1 + ".");
+            throw new EmptyPositionError("No card at the given index, " + row1 + ", " + card1 + ".",
+                [positions[0]]);
         }
 
         if (this.getCardAt(row2, card2) == null) {
-            throw new Error("No card at the given index, " + row2 + ", " + card2 + ".");
+            throw new EmptyPositionError("No card at the given index, " + row2 + ", " + card2 + ".",
+                [positions[1]]);
         }
 
 
         // Checks if the cards at the given indexes add up to the removal value.
         if (this.getCardAt(row1, card1).getValue() + this.getCardAt(row2, card2).getValue()
             != this.removalValue) {
-            throw new Error("The given cards do not add up to 13, and "
-                + "therefore cannot be removed.");
+            throw new WrongSumError("The given cards do not add up to " + this.removalValue + ", and "
+                + "therefore cannot be removed.", positions,
+                [this.getCardAt(row1, card1), this.getCardAt(row2, card2)], this.removalValue);
         }
     }
 
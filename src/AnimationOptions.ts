@@ -0,0 +1,26 @@
+/**
+ * Represents the optional settings of the animations of the visual view of a game.
+ */
+export interface AnimationOptions {
+    /**
+     * The number of milliseconds a removed card takes to fly off the table.
+     */
+    removeDuration?: number;
+
+    /**
+     * The number of milliseconds a new draw card takes to slide in from the stock.
+     */
+    drawDuration?: number;
+
+    /**
+     * The number of milliseconds the celebration of a won game lasts.
+     */
+    celebrationDuration?: number;
+
+    /**
+     * Whether the view should not move anything by itself, so that cards go straight to where
+     * they end up and a win is not celebrated. Follows the reduced motion setting of the player's
+     * system if not given.
+     */
+    reducedMotion?: boolean;
+}
@@ -1,9 +1,81 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import App from './App';
+import {GameStorage} from "./GameStorage";
+import {GameType} from "./GameType";
+import {ScoringType} from "./ScoringType";
+import {ignoringContext} from "./testUtils";
 
-test('renders learn react link', () => {
+beforeEach(() => {
+  // jsdom does not draw, so the canvas is given a context which ignores everything drawn on it
+  jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => ignoringContext());
+  window.localStorage.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('renders the New Game button', () => {
+  render(<App />);
+  expect(screen.getByRole("button", {name: "New Game"})).toBeInTheDocument();
+});
+
+test('plays the deal with the number typed next to the New Game button', () => {
+  render(<App />);
+  fireEvent.change(document.getElementById("dealInput"), {target: {value: "42"}});
+  fireEvent.click(screen.getByRole("button", {name: "Play Deal"}));
+  expect(screen.getByText("Game #42")).toBeInTheDocument();
+});
+
+test('keeps the game being played if the saved game cannot be resumed', () => {
+  window.localStorage.setItem(GameStorage.KEY, JSON.stringify({gameType: GameType.BASIC, pyramid: "none"}));
+  const alert: jest.SpyInstance = jest.spyOn(window, 'alert').mockImplementation(() => undefined);
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  const dealNumber: string = screen.getByText(/^Game #/).textContent;
+  const saved: string = window.localStorage.getItem(GameStorage.KEY);
+  fireEvent.click(screen.getByRole("button", {name: "Resume last game"}));
+  expect(alert).toHaveBeenCalledTimes(1);
+  expect(screen.getByText(/^Game #/)).toHaveTextContent(dealNumber);
+  expect(document.getElementById("restartButton")).toBeEnabled();
+  // the game being played is still saved, since only the saved game failed to load
+  expect(window.localStorage.getItem(GameStorage.KEY)).toBe(saved);
+});
+
+describe('setup dialog', () => {
+  test('checks the configuration when it changes, and only then', () => {
+    render(<App />);
+    const setupError: jest.SpyInstance = jest.spyOn(App, 'setupError');
+    fireEvent.click(document.getElementById("setupButton"));
+    expect(setupError).toHaveBeenCalledTimes(1);
+    expect(document.getElementById("dealSetupButton")).toBeEnabled();
+
+    fireEvent.change(document.getElementById("numRowsInput"), {target: {value: "10"}});
+    expect(setupError).toHaveBeenCalledTimes(2);
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "A pyramid of 10 rows and 3 draw cards needs more than the 52 cards of this deck.");
+    expect(document.getElementById("dealSetupButton")).toBeDisabled();
+
+    // showing the statistics draws the dialog again without changing it
+    fireEvent.click(document.getElementById("statisticsButton"));
+    expect(setupError).toHaveBeenCalledTimes(2);
+  });
+
+  test('restores the remembered configuration, unless a game can no longer be dealt with it', () => {
+    GameStorage.saveSetup({gameType: GameType.RELAXED, numRows: 5, numDraw: 2, shuffle: false, seed: null,
+      redeals: 1, deckName: "Usual deck", removalValue: 13, scoring: ScoringType.PYRAMID_SUM});
+    const {unmount} = render(<App />);
+    fireEvent.click(document.getElementById("setupButton"));
+    expect(document.getElementById("gameTypeSelect")).toHaveValue(GameType.RELAXED);
+    expect(document.getElementById("numRowsInput")).toHaveValue(5);
+    expect(document.getElementById("numDrawInput")).toHaveValue(2);
+    expect(document.getElementById("shuffleInput")).not.toBeChecked();
+    unmount();
+
+    GameStorage.saveSetup({gameType: GameType.BASIC, numRows: 10, numDraw: 3, shuffle: true, seed: null,
+      redeals: 0, deckName: "Usual deck", removalValue: 13, scoring: ScoringType.PYRAMID_SUM});
+    render(<App />);
+    fireEvent.click(document.getElementById("setupButton"));
+    expect(document.getElementById("numRowsInput")).toHaveValue(7);
+  });
 });
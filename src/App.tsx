@@ -2,38 +2,618 @@ import React from 'react';
 import logo from './logo.svg';
 import './App.css';
 import CSS from "csstype";
-import {BasicPyramidSolitaire} from "./BasicPyramidSolitaire";
 import {PyramidSolitaireVisualView} from "./PyramidSolitaireVisualView";
-import {PyramidSolitaireVisualController} from "./PyramidSolitaireVisualController";
+import {AbstractPyramidSolitaire} from "./AbstractPyramidSolitaire";
+import {SavedGame} from "./SavedGame";
+import {GameStorage} from "./GameStorage";
+import {GameRecording} from "./GameRecording";
+import {PyramidSolitaireReplay} from "./PyramidSolitaireReplay";
+import {GameType} from "./GameType";
+import {PyramidSolitaireCreator} from "./PyramidSolitaireCreator";
+import {DeckSpec} from "./DeckSpec";
+import {GameOptions} from "./GameOptions";
+import {Themes} from "./Themes";
+import {ThemeSettings} from "./Theme";
+import {PlayerStatistics} from "./PlayerStatistics";
+import {ConfigurationStatistics} from "./GameStatistics";
+import {GameEvent} from "./GameEvent";
+import {GameEventType} from "./GameEventType";
+import {ScoringType} from "./ScoringType";
+import {GameSetup} from "./GameSetup";
+import {GameSession} from "./GameSession";
+import {GameDeal} from "./GameDeal";
 
-class App extends React.Component<{ }, { }> {
+// the decks the player can choose from by name, the usual deck of the kind of game being undefined
+const DECKS: { [name: string]: DeckSpec } = {
+  "Usual deck": undefined,
+  "Stripped deck": {values: [1, 6, 7, 8, 9, 10, 11, 12, 13], copies: 1},
+  "Extra ranks": {values: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15], copies: 1},
+  "Two decks": AbstractPyramidSolitaire.standardDeck(2)
+};
 
+// the configuration of new games until the player chooses another
+const DEFAULT_SETUP: GameSetup = {gameType: GameType.BASIC, numRows: 7, numDraw: 3, shuffle: true, seed: null,
+  redeals: 0, deckName: "Usual deck", removalValue: AbstractPyramidSolitaire.DEFAULT_REMOVAL_VALUE,
+  scoring: ScoringType.PYRAMID_SUM};
 
-  componentDidMount() {
-    const canvas = document.getElementById("myCanvas");
-    const removeButton = document.getElementById("removeButton");
-    const rulesButton = document.getElementById("rulesButton");
-    // creates the model for the game
-    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
-    // creates the view for the game
-    const view: PyramidSolitaireVisualView = new PyramidSolitaireVisualView(canvas, removeButton, rulesButton);
-    // creates the controller for the game
-    const visualController: PyramidSolitaireVisualController = new PyramidSolitaireVisualController(view, model);
-    visualController.playGame(model.getDeck(), false, 7, 3);
+interface AppState {
+  // the number of the deal being played, or -1 if the deck was not shuffled
+  dealNumber: number;
+  // the game saved when the page was loaded, or null if there is none to resume
+  savedGame: SavedGame;
+  // the replay being watched, or null if a game is being played
+  replay: PyramidSolitaireReplay;
+  // the configuration of the last game dealt, which New Game deals again with a new shuffle
+  setup: GameSetup;
+  // the configuration being chosen in the setup dialog, or null if the dialog is closed
+  draft: GameSetup;
+  // why a game cannot be dealt with the configuration being chosen, or null if it can
+  draftError: string;
+  // the deal number typed next to the New Game button
+  dealInput: string;
+  // whether the cards on the canvas move straight to where they end up, without animation
+  reducedMotion: boolean;
+  // whether the cards which can be played are marked on the canvas
+  assist: boolean;
+  // whether exposed Kings and other safe moves are played for the player
+  autoPlay: boolean;
+  // the name of the theme the table and the cards are drawn in
+  themeName: string;
+  // whether each suit is drawn in its own colour
+  fourColorSuits: boolean;
+  // the statistics of every game finished, and whether they are being shown
+  statistics: PlayerStatistics;
+  showStatistics: boolean;
+}
+
+class App extends React.Component<{ }, AppState> {
+  // the game being played or replayed on the canvas, or null before the first game
+  private session: GameSession = null;
+  // the game last counted in the statistics, with its result and the statistics from before it was
+  // counted, or null if no game has been counted since the page was loaded
+  private countedGame: {model: AbstractPyramidSolitaire, won: boolean, score: number,
+    before: PlayerStatistics} = null;
+
+  constructor(props: { }) {
+    super(props);
+    const theme: ThemeSettings = GameStorage.loadTheme();
+    // the remembered configuration is only used if a game can still be dealt with it
+    let setup: GameSetup = Object.assign({}, DEFAULT_SETUP, GameStorage.loadSetup(), {seed: null});
+    if (App.setupError(setup) != null) {
+      setup = DEFAULT_SETUP;
+    }
+    this.state = {dealNumber: -1, savedGame: null, replay: null, setup: setup, draft: null, draftError: null,
+      dealInput: "",
+      reducedMotion: window.matchMedia != null && window.matchMedia("(prefers-reduced-motion: reduce)").matches,
+      assist: false, autoPlay: false,
+      themeName: theme != null ? Themes.named(theme.name).name : Themes.CLASSIC.name,
+      fourColorSuits: theme != null && theme.fourColorSuits === true,
+      statistics: GameStorage.loadStatistics(), showStatistics: false};
+    this.reshuffle = this.reshuffle.bind(this);
+    this.playDeal = this.playDeal.bind(this);
+    this.dealInputChanged = this.dealInputChanged.bind(this);
+    this.restart = this.restart.bind(this);
+    this.openSetup = this.openSetup.bind(this);
+    this.closeSetup = this.closeSetup.bind(this);
+    this.dealSetup = this.dealSetup.bind(this);
+    this.numRowsChanged = this.numRowsChanged.bind(this);
+    this.numDrawChanged = this.numDrawChanged.bind(this);
+    this.shuffleChanged = this.shuffleChanged.bind(this);
+    this.seedChanged = this.seedChanged.bind(this);
+    this.resumeGame = this.resumeGame.bind(this);
+    this.startReplay = this.startReplay.bind(this);
+    this.exitReplay = this.exitReplay.bind(this);
+    this.playOrPauseReplay = this.playOrPauseReplay.bind(this);
+    this.stepReplay = this.stepReplay.bind(this);
+    this.replaySpeedChanged = this.replaySpeedChanged.bind(this);
+    this.gameTypeChanged = this.gameTypeChanged.bind(this);
+    this.redealsChanged = this.redealsChanged.bind(this);
+    this.deckChanged = this.deckChanged.bind(this);
+    this.removalValueChanged = this.removalValueChanged.bind(this);
+    this.scoringChanged = this.scoringChanged.bind(this);
+    this.reducedMotionChanged = this.reducedMotionChanged.bind(this);
+    this.assistChanged = this.assistChanged.bind(this);
+    this.autoPlayChanged = this.autoPlayChanged.bind(this);
+    this.themeChanged = this.themeChanged.bind(this);
+    this.fourColorSuitsChanged = this.fourColorSuitsChanged.bind(this);
+    this.toggleStatistics = this.toggleStatistics.bind(this);
+    this.resetStatistics = this.resetStatistics.bind(this);
+  }
 
+  componentDidMount() {
+    // keeps the last game so that it can still be resumed once the new game has been played
+    this.setState({savedGame: GameStorage.load()});
+    this.newGame(this.state.setup);
   }
 
+  /**
+   * Deals a new game with the configuration of the last one, shuffled anew if it was shuffled.
+   */
   reshuffle() {
+    this.newGame({...this.state.setup, seed: null});
+  }
+
+  /**
+   * Deals the game being played again from the start.
+   */
+  restart() {
+    if (this.session != null && this.session.canRestart()) {
+      this.startDeal(this.session.getDeal());
+    }
+  }
+
+  /**
+   * Deals the game with the deal number typed next to the New Game button, with the configuration
+   * of the last game, if the number is a valid deal number.
+   */
+  playDeal() {
+    const dealNumber: number = Number(this.state.dealInput);
+    if (AbstractPyramidSolitaire.isValidDealNumber(dealNumber)) {
+      this.newGame({...this.state.setup, shuffle: true, seed: dealNumber});
+    } else {
+      alert("Please enter a deal number from 1 to " + AbstractPyramidSolitaire.MAX_DEAL_NUMBER + ".");
+    }
+  }
+
+  dealInputChanged(e: React.ChangeEvent<HTMLInputElement>) {
+    this.setState({dealInput: e.target.value});
+  }
+
+  /**
+   * Opens the setup dialog with the configuration of the last game.
+   */
+  openSetup() {
+    this.setState({draft: this.state.setup, draftError: App.setupError(this.state.setup)});
+  }
+
+  closeSetup() {
+    this.setState({draft: null, draftError: null});
+  }
+
+  /**
+   * Deals a game with the configuration chosen in the setup dialog, if a game can be dealt with
+   * it, and remembers the configuration for the next visit.
+   */
+  dealSetup() {
+    const setup: GameSetup = this.state.draft;
+    if (this.state.draftError != null) {
+      return;
+    }
+    // the deal number is only played once, later games being shuffled anew
+    GameStorage.saveSetup({...setup, seed: null});
+    this.setState({draft: null, draftError: null});
+    this.newGame(setup);
+  }
+
+  numRowsChanged(e: React.ChangeEvent<HTMLInputElement>) {
+    this.changeDraft({numRows: e.target.valueAsNumber});
+  }
+
+  numDrawChanged(e: React.ChangeEvent<HTMLInputElement>) {
+    this.changeDraft({numDraw: e.target.valueAsNumber});
+  }
+
+  shuffleChanged(e: React.ChangeEvent<HTMLInputElement>) {
+    this.changeDraft({shuffle: e.target.checked});
+  }
+
+  seedChanged(e: React.ChangeEvent<HTMLInputElement>) {
+    this.changeDraft({seed: e.target.value === "" ? null : e.target.valueAsNumber});
+  }
+
+  gameTypeChanged(e: React.ChangeEvent<HTMLSelectElement>) {
+    this.changeDraft({gameType: e.target.value});
+  }
+
+  redealsChanged(e: React.ChangeEvent<HTMLSelectElement>) {
+    this.changeDraft({redeals: Number(e.target.value)});
+  }
+
+  deckChanged(e: React.ChangeEvent<HTMLSelectElement>) {
+    this.changeDraft({deckName: e.target.value});
+  }
+
+  removalValueChanged(e: React.ChangeEvent<HTMLSelectElement>) {
+    this.changeDraft({removalValue: Number(e.target.value)});
+  }
+
+  scoringChanged(e: React.ChangeEvent<HTMLSelectElement>) {
+    this.changeDraft({scoring: e.target.value});
+  }
+
+  /**
+   * Changes the given choices of the configuration being chosen in the setup dialog, checking
+   * whether a game can be dealt with the new configuration.
+   * @param changes the choices which have changed
+   */
+  private changeDraft(changes: Partial<GameSetup>) {
+    const draft: GameSetup = {...this.state.draft, ...changes};
+    this.setState({draft: draft, draftError: App.setupError(draft)});
+  }
+
+  /**
+   * Returns why a game cannot be dealt with the given configuration, or null if it can. The
+   * configuration is checked by dealing it with a model of its kind of game, so the reasons are
+   * those the model gives.
+   * @param setup the configuration to be checked
+   * @return the reason the configuration cannot be dealt, or null
+   */
+  static setupError(setup: GameSetup): string {
+    if (!Number.isInteger(setup.numRows) || !Number.isInteger(setup.numDraw)) {
+      return "The number of rows and of draw cards must be whole numbers.";
+    }
+    try {
+      const model: AbstractPyramidSolitaire = PyramidSolitaireCreator.create(setup.gameType as GameType,
+          DECKS[setup.deckName]);
+      if (!model.isEnoughCards(model.getDeck().length, setup.numRows, setup.numDraw)) {
+        return "A pyramid of " + setup.numRows + " rows and " + setup.numDraw + " draw cards needs more than the "
+            + model.getDeck().length + " cards of this deck.";
+      }
+      model.startGame(model.getDeck(), setup.shuffle, setup.numRows, setup.numDraw, App.optionsOf(setup));
+      return null;
+    } catch (e) {
+      return e.message;
+    }
+  }
+
+  /**
+   * Returns the options a game of the given configuration is started with.
+   * @param setup the configuration of the game
+   * @return the options of the game
+   */
+  private static optionsOf(setup: GameSetup): GameOptions {
+    return {seed: setup.shuffle && setup.seed != null ? setup.seed : undefined, redeals: setup.redeals,
+      removalValue: setup.removalValue, scoring: setup.scoring as ScoringType};
+  }
+
+  reducedMotionChanged(e: React.ChangeEvent<HTMLInputElement>) {
+    this.setState({reducedMotion: e.target.checked});
+    if (this.session != null) {
+      this.session.getView().setAnimationOptions({reducedMotion: e.target.checked});
+    }
+  }
+
+  assistChanged(e: React.ChangeEvent<HTMLInputElement>) {
+    this.setState({assist: e.target.checked});
+    if (this.session != null) {
+      this.session.getController().setAssist(e.target.checked);
+    }
+  }
+
+  autoPlayChanged(e: React.ChangeEvent<HTMLInputElement>) {
+    this.setState({autoPlay: e.target.checked});
+    if (this.session != null && this.state.replay == null) {
+      this.session.getController().setAutoPlay(e.target.checked);
+    }
+  }
+
+  themeChanged(e: React.ChangeEvent<HTMLSelectElement>) {
+    this.applyTheme({name: e.target.value, fourColorSuits: this.state.fourColorSuits});
+  }
+
+  fourColorSuitsChanged(e: React.ChangeEvent<HTMLInputElement>) {
+    this.applyTheme({name: this.state.themeName, fourColorSuits: e.target.checked});
+  }
+
+  /**
+   * Draws the game being played in the given theme, and remembers it for the next visit.
+   * @param settings the choice of theme
+   */
+  private applyTheme(settings: ThemeSettings) {
+    this.setState({themeName: settings.name, fourColorSuits: settings.fourColorSuits});
+    GameStorage.saveTheme(settings);
+    if (this.session != null) {
+      this.session.getView().setTheme(Themes.named(settings.name), settings.fourColorSuits);
+    }
+  }
+
+  toggleStatistics() {
+    this.setState({showStatistics: !this.state.showStatistics});
+  }
+
+  /**
+   * Forgets every game counted in the statistics, once the player has confirmed it.
+   */
+  resetStatistics() {
+    if (window.confirm("Reset the statistics of every game played?")) {
+      GameStorage.clearStatistics();
+      const statistics: PlayerStatistics = new PlayerStatistics();
+      // the last game counted is forgotten too, unless it ends differently
+      if (this.countedGame != null) {
+        this.countedGame = {...this.countedGame, before: statistics};
+      }
+      this.setState({statistics: statistics});
+    }
+  }
+
+  /**
+   * Counts the given game in the statistics whenever it is over.
+   * @param model the game to be counted
+   */
+  private trackStatistics(model: AbstractPyramidSolitaire) {
+    model.subscribe((event: GameEvent) => {
+      if (event.type === GameEventType.GAME_OVER) {
+        this.countGame(model, event.won, event.score);
+      }
+    });
+  }
+
+  /**
+   * Counts the given game in the statistics with the result it ended with. A game is only counted
+   * once: ending it the same way again after undoing its last move changes nothing, while ending it
+   * differently counts it with its final result instead of the one it first ended with.
+   * @param model the game which is over
+   * @param won   whether the game was won
+   * @param score the score the game ended with
+   */
+  private countGame(model: AbstractPyramidSolitaire, won: boolean, score: number) {
+    const counted = this.countedGame != null && this.countedGame.model === model ? this.countedGame : null;
+    if (counted != null && counted.won === won && counted.score === score) {
+      return;
+    }
+    const before: PlayerStatistics = counted != null ? counted.before : this.state.statistics;
+    const statistics: PlayerStatistics = before.copy();
+    statistics.recordGame(model.getGameType(), model.getNumRows(), model.getNumDraw(), model.getScoringPolicy(),
+        won, score);
+    this.countedGame = {model: model, won: won, score: score, before: before};
+    GameStorage.saveStatistics(statistics);
+    this.setState({statistics: statistics});
+  }
+
+  /**
+   * Resumes the game which was saved when the page was loaded.
+   */
+  resumeGame() {
+    // the game being played is kept if the saved game cannot be resumed, and so is its own save
+    this.resume(this.state.savedGame);
+    this.setState({savedGame: null});
+  }
+
+  /**
+   * Replays the last recorded game on the canvas, without saving anything.
+   */
+  startReplay() {
+    const recording: GameRecording = GameStorage.loadRecording();
+    if (recording == null) {
+      alert("There is no recorded game to replay yet.");
+      return;
+    }
+    this.stopReplay();
+    try {
+      const replay: PyramidSolitaireReplay = new PyramidSolitaireReplay(this.createSession(
+          PyramidSolitaireCreator.create(recording.gameType as GameType || GameType.BASIC, recording.deckSpec),
+          true).getController(), recording);
+      replay.setChangeListener(() => this.forceUpdate());
+      replay.start();
+      this.setState({replay: replay, dealNumber: recording.dealNumber});
+    } catch (e) {
+      alert("The recorded game could not be replayed. " + e.message);
+    }
+  }
+
+  /**
+   * Stops the replay and goes back to the game which was being played.
+   */
+  exitReplay() {
+    this.stopReplay();
+    const savedGame: SavedGame = GameStorage.load();
+    if (savedGame == null || !this.resume(savedGame)) {
+      // the saved game which could not be resumed is forgotten
+      GameStorage.clear();
+      this.newGame(this.state.setup);
+    }
+  }
+
+  playOrPauseReplay() {
+    if (this.state.replay.isPlaying()) {
+      this.state.replay.pause();
+    } else {
+      this.state.replay.play();
+    }
+  }
+
+  stepReplay() {
+    this.state.replay.step();
+  }
+
+  replaySpeedChanged(e: React.ChangeEvent<HTMLSelectElement>) {
+    this.state.replay.setSpeed(Number(e.target.value));
+  }
+
+  /**
+   * Pauses and forgets the replay being watched, if there is one.
+   */
+  private stopReplay() {
+    if (this.state.replay != null) {
+      this.state.replay.pause();
+      this.setState({replay: null});
+    }
+  }
+
+  /**
+   * Resumes the given saved game on the canvas. The saved game is loaded into a model of its own
+   * first, so that the game on the canvas is only replaced once the saved game is known to load.
+   * @param savedGame the game to be resumed
+   * @return whether the game was resumed
+   */
+  private resume(savedGame: SavedGame): boolean {
+    const gameType: GameType = savedGame.gameType as GameType || GameType.BASIC;
+    try {
+      PyramidSolitaireCreator.create(gameType).fromJSON(savedGame);
+    } catch (e) {
+      alert("The last game could not be resumed. " + e.message);
+      return false;
+    }
+    const model: AbstractPyramidSolitaire = PyramidSolitaireCreator.create(gameType);
+    this.createSession(model).resume(savedGame, GameStorage.loadRecording());
+    this.setState({dealNumber: model.getDealNumber()});
+    return true;
+  }
+
+  /**
+   * Starts a new game with the given configuration on the canvas, which becomes the configuration
+   * of the next new game.
+   * @param setup the configuration of the game
+   */
+  private newGame(setup: GameSetup) {
+    this.stopReplay();
+    try {
+      // creates the model for the game
+      const model: AbstractPyramidSolitaire = PyramidSolitaireCreator.create(setup.gameType as GameType,
+          DECKS[setup.deckName]);
+      this.createSession(model).start(model.getDeck(), setup.shuffle, setup.numRows, setup.numDraw,
+          App.optionsOf(setup));
+      this.setState({dealNumber: model.getDealNumber(), setup: setup});
+    } catch (e) {
+      alert("The game could not be dealt. " + e.message);
+    }
+  }
+
+  /**
+   * Deals the given deal again from the start on the canvas, keeping the configuration of the next
+   * new game.
+   * @param deal the deal to be played
+   */
+  private startDeal(deal: GameDeal) {
+    this.stopReplay();
+    try {
+      const model: AbstractPyramidSolitaire = PyramidSolitaireCreator.create(deal.gameType as GameType,
+          deal.deckSpec);
+      this.createSession(model).restart(deal);
+      this.setState({dealNumber: model.getDealNumber()});
+    } catch (e) {
+      alert("The game could not be dealt again. " + e.message);
+    }
+  }
+
+  /**
+   * Creates the session of a game with the given model on the canvas, with a new view, after
+   * disposing of the session of the last game so that only one game responds to the player.
+   * @param model the model of the game
+   * @param forReplay whether the game is a replay, which the player cannot play and is not saved
+   * @return the session of the game, which has not been started
+   */
+  private createSession(model: AbstractPyramidSolitaire, forReplay: boolean = false): GameSession {
     const canvas = document.getElementById("myCanvas");
     const removeButton = document.getElementById("removeButton");
     const rulesButton = document.getElementById("rulesButton");
-    // creates the model for the game
-    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    const undoButton = document.getElementById("undoButton");
+    const redoButton = document.getElementById("redoButton");
+    const hintButton = document.getElementById("hintButton");
+    const shuffleButton = document.getElementById("shuffleButton");
+    const autoFinishButton = document.getElementById("autoFinishButton");
+    if (this.session != null) {
+      this.session.dispose();
+      this.session = null;
+    }
     // creates the view for the game
-    const view: PyramidSolitaireVisualView = new PyramidSolitaireVisualView(canvas, removeButton, rulesButton);
-    // creates the controller for the game
-    const visualController: PyramidSolitaireVisualController = new PyramidSolitaireVisualController(view, model);
-    visualController.playGame(model.getDeck(), true, 7, 3);
+    const view: PyramidSolitaireVisualView = new PyramidSolitaireVisualView(canvas, removeButton, rulesButton,
+        undoButton, redoButton, hintButton, shuffleButton, autoFinishButton);
+    view.setInteractive(!forReplay);
+    view.setAnimationOptions({reducedMotion: this.state.reducedMotion});
+    view.setTheme(Themes.named(this.state.themeName), this.state.fourColorSuits);
+    if (!forReplay) {
+      this.trackStatistics(model);
+    }
+    // creates the session, with the controller joining the model and the view
+    this.session = new GameSession(model, view, !forReplay);
+    this.session.getController().setAssist(this.state.assist);
+    // the moves of a replay are all recorded, including those which were played automatically
+    this.session.getController().setAutoPlay(this.state.autoPlay && !forReplay);
+    return this.session;
+  }
+
+  /**
+   * Returns a row of the statistics table for the given games.
+   * @param name the name of the games
+   * @param statistics the statistics of the games
+   */
+  private statisticsRow(name: string, statistics: ConfigurationStatistics) {
+    const average: number = PlayerStatistics.averageScore(statistics);
+    return (<tr key={name}>
+      <td>{name}</td>
+      <td>{statistics.played}</td>
+      <td>{statistics.won}</td>
+      <td>{Math.round(100 * PlayerStatistics.winRate(statistics))}%</td>
+      <td>{statistics.bestScore == null ? "-" : statistics.bestScore}</td>
+      <td>{average == null ? "-" : average.toFixed(1)}</td>
+      <td>{statistics.currentStreak}</td>
+      <td>{statistics.longestStreak}</td>
+      <td>{Object.keys(statistics.scores).sort((a, b) => Number(a) - Number(b))
+          .map(score => score + " ×" + statistics.scores[score]).join(", ")}</td>
+    </tr>);
+  }
+
+  /**
+   * Returns the setup dialog, in which the configuration of the next game is chosen. The choices
+   * are checked as they are made, and the game can only be dealt once they are valid.
+   * @param buttonStyle the style of the buttons
+   * @param labelStyle the style of the labels
+   * @param inputStyle the style of the inputs
+   */
+  private renderSetup(buttonStyle: CSS.Properties, labelStyle: CSS.Properties, inputStyle: CSS.Properties) {
+    const draft: GameSetup = this.state.draft;
+    const error: string = this.state.draftError;
+    const errorStyle : CSS.Properties = {
+      color: "#c00000",
+      fontSize: "18px",
+      fontFamily: "veranda"
+    }
+    return (<div id = "setupDialog" role="dialog" aria-labelledby="setupTitle">
+      <h3 id = "setupTitle" style={labelStyle}>New game</h3>
+      <label style={labelStyle}>Rules
+        <select id = "gameTypeSelect" style={inputStyle} value={draft.gameType} onChange={this.gameTypeChanged}>
+          {Object.values(GameType).map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+      </label>
+      <label style={labelStyle}>Rows
+        <input type="number" id = "numRowsInput" style={inputStyle} min={1}
+               value={Number.isNaN(draft.numRows) ? "" : draft.numRows} onChange={this.numRowsChanged}/>
+      </label>
+      <label style={labelStyle}>Draw cards
+        <input type="number" id = "numDrawInput" style={inputStyle} min={0}
+               value={Number.isNaN(draft.numDraw) ? "" : draft.numDraw} onChange={this.numDrawChanged}/>
+      </label>
+      <label style={labelStyle}>Deck
+        <select id = "deckSelect" style={inputStyle} value={draft.deckName} onChange={this.deckChanged}>
+          {Object.keys(DECKS).map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        <input type="checkbox" id = "shuffleInput" checked={draft.shuffle} onChange={this.shuffleChanged}/> Shuffle
+      </label>
+      <label style={labelStyle}>Deal #
+        <input type="number" id = "seedInput" style={inputStyle} placeholder="Random" min={1}
+               max={AbstractPyramidSolitaire.MAX_DEAL_NUMBER} disabled={!draft.shuffle}
+               value={draft.seed == null || Number.isNaN(draft.seed) ? "" : draft.seed} onChange={this.seedChanged}/>
+      </label>
+      <br/>
+      <label style={labelStyle}>Redeals
+        <select id = "redealsSelect" style={inputStyle} value={draft.redeals} onChange={this.redealsChanged}>
+          <option value={0}>No redeals</option>
+          <option value={1}>1 redeal</option>
+          <option value={2}>2 redeals</option>
+          <option value={3}>3 redeals</option>
+        </select>
+      </label>
+      <label style={labelStyle}>Removal
+        <select id = "removalValueSelect" style={inputStyle} value={draft.removalValue}
+                onChange={this.removalValueChanged}>
+          <option value={11}>Sum to 11</option>
+          <option value={13}>Sum to 13</option>
+          <option value={15}>Sum to 15</option>
+        </select>
+      </label>
+      <label style={labelStyle}>Scoring
+        <select id = "scoringSelect" style={inputStyle} value={draft.scoring} onChange={this.scoringChanged}>
+          {Object.values(ScoringType).map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+      </label>
+      <p id = "setupError" role="alert" style={errorStyle}>{error}</p>
+      <button type="button" id = "dealSetupButton" style={buttonStyle} onClick={this.dealSetup}
+              disabled={error != null}>Deal</button>
+      <button type="button" id = "cancelSetupButton" style={buttonStyle} onClick={this.closeSetup}>Cancel</button>
+    </div>);
   }
 
   render() {
@@ -57,13 +637,99 @@ class App extends React.Component<{ }, { }> {
       fontSize: "18px",
       fontFamily: "veranda"
     }
+    const dealStyle : CSS.Properties = {
+      marginLeft: "0.5em",
+      fontSize: "18px",
+      fontFamily: "veranda"
+    }
+    const dealInputStyle : CSS.Properties = {
+      marginLeft: "0.5em",
+      width: "6em",
+      fontSize: "18px",
+      fontFamily: "veranda"
+    }
     return (<div>
 
       <header>
         <button type="button" id = "removeButton" style={rmvButtonStyle}>Remove Selected</button>
+        <button type="button" id = "undoButton" style={rulesAndShuffleButtonStyle}>Undo</button>
+        <button type="button" id = "redoButton" style={rulesAndShuffleButtonStyle}>Redo</button>
+        <button type="button" id = "hintButton" style={rulesAndShuffleButtonStyle}>Hint</button>
+        <button type="button" id = "autoFinishButton" style={rulesAndShuffleButtonStyle} disabled>Auto-finish</button>
         <button type="button" id = "rulesButton" style={rulesAndShuffleButtonStyle}>Rules</button>
-        <button type="button" id = "shuffleButton" style={rulesAndShuffleButtonStyle} onClick={this.reshuffle}>New Shuffle</button>
+        <button type="button" id = "shuffleButton" style={rulesAndShuffleButtonStyle} onClick={this.reshuffle}>New Game</button>
+        <button type="button" id = "restartButton" style={rulesAndShuffleButtonStyle} onClick={this.restart}
+                disabled={this.session == null || !this.session.canRestart()}>Restart</button>
+        <button type="button" id = "setupButton" style={rulesAndShuffleButtonStyle} onClick={this.openSetup}>Setup...</button>
+        <span style={dealStyle}>{this.state.dealNumber === -1 ? "Unshuffled deal" : "Game #" + this.state.dealNumber}</span>
+        <input type="number" id = "dealInput" style={dealInputStyle} placeholder="Deal #" min={1}
+               max={AbstractPyramidSolitaire.MAX_DEAL_NUMBER} value={this.state.dealInput}
+               onChange={this.dealInputChanged}/>
+        <button type="button" id = "dealButton" style={rulesAndShuffleButtonStyle} onClick={this.playDeal}>Play Deal</button>
+        {this.state.savedGame != null &&
+          <button type="button" id = "resumeButton" style={rulesAndShuffleButtonStyle} onClick={this.resumeGame}>Resume last game</button>}
+        <button type="button" id = "replayButton" style={rulesAndShuffleButtonStyle} onClick={this.startReplay}>Replay</button>
+        <label style={dealStyle}>
+          <input type="checkbox" id = "reducedMotionInput" checked={this.state.reducedMotion}
+                 onChange={this.reducedMotionChanged}/> Reduce motion
+        </label>
+        <label style={dealStyle}>
+          <input type="checkbox" id = "assistInput" checked={this.state.assist}
+                 onChange={this.assistChanged}/> Assist
+        </label>
+        <label style={dealStyle}>
+          <input type="checkbox" id = "autoPlayInput" checked={this.state.autoPlay}
+                 onChange={this.autoPlayChanged}/> Auto-play
+        </label>
+        <select id = "themeSelect" style={dealInputStyle} value={this.state.themeName} onChange={this.themeChanged}>
+          {Themes.ALL.map(theme => <option key={theme.name} value={theme.name}>{theme.name}</option>)}
+        </select>
+        <label style={dealStyle}>
+          <input type="checkbox" id = "fourColorSuitsInput" checked={this.state.fourColorSuits}
+                 onChange={this.fourColorSuitsChanged}/> Four-colour suits
+        </label>
+        <button type="button" id = "statisticsButton" style={rulesAndShuffleButtonStyle}
+                onClick={this.toggleStatistics}>Statistics</button>
       </header>
+      {this.state.draft != null && this.renderSetup(rulesAndShuffleButtonStyle, dealStyle, dealInputStyle)}
+      {this.state.replay != null &&
+        <div id = "replayControls">
+          <button type="button" style={rulesAndShuffleButtonStyle} onClick={this.playOrPauseReplay}>
+            {this.state.replay.isPlaying() ? "Pause" : "Play"}</button>
+          <button type="button" style={rulesAndShuffleButtonStyle} onClick={this.stepReplay}
+                  disabled={this.state.replay.isFinished()}>Step</button>
+          <select style={dealInputStyle} defaultValue="1" onChange={this.replaySpeedChanged}>
+            <option value="0.5">0.5x</option>
+            <option value="1">1x</option>
+            <option value="2">2x</option>
+            <option value="4">4x</option>
+          </select>
+          <span style={dealStyle}>Move {this.state.replay.getPosition()} of {this.state.replay.getLength()}</span>
+          {this.state.replay.hasFailed() &&
+            <span role="alert" style={dealStyle}>Move {this.state.replay.getPosition() + 1} does not fit the recorded
+              deal, so the replay stops here.</span>}
+          <button type="button" style={rulesAndShuffleButtonStyle} onClick={this.exitReplay}>Exit Replay</button>
+        </div>}
+      {this.state.showStatistics &&
+        <div id = "statisticsPanel" style={dealStyle}>
+          <table>
+            <thead>
+              <tr>
+                <th>Game</th><th>Played</th><th>Won</th><th>Win rate</th><th>Best score</th>
+                <th>Average score</th><th>Streak</th><th>Longest streak</th><th>Scores</th>
+              </tr>
+            </thead>
+            <tbody>
+              {this.statisticsRow("All games", this.state.statistics.getTotal())}
+              {this.state.statistics.getConfigurations().map(statistics => this.statisticsRow(
+                  statistics.gameType + ", " + statistics.numRows + " rows, " + statistics.numDraw + " draws, "
+                  + statistics.scoring,
+                  statistics))}
+            </tbody>
+          </table>
+          <button type="button" id = "resetStatisticsButton" style={rulesAndShuffleButtonStyle}
+                  onClick={this.resetStatistics}>Reset statistics</button>
+        </div>}
       <canvas id="myCanvas" width="700" height="800" style = {cnvStyle}>
       </canvas>
     </div>);
@@ -0,0 +1,527 @@
+import {BasicPyramidSolitaire} from "./BasicPyramidSolitaire";
+import {Card} from "./Card";
+import {Suit} from "./Suit";
+import {MoveType} from "./MoveType";
+import {GameRecording} from "./GameRecording";
+import {GameEvent} from "./GameEvent";
+import {GameEventType} from "./GameEventType";
+import {ScoringType} from "./ScoringType";
+import {PyramidSolitaireError} from "./PyramidSolitaireError";
+import {WrongSumError} from "./WrongSumError";
+import {SameCardError} from "./SameCardError";
+import {ErrorCode} from "./ErrorCode";
+
+/**
+ * Returns a standard deck ordered so that the given cards are dealt first, in the given order.
+ */
+function deckStartingWith(model: BasicPyramidSolitaire, first: Array<Card>): Array<Card> {
+  const rest: Array<Card> = model.getDeck().filter(card => !first.some(other => other.equals(card)));
+  return first.concat(rest);
+}
+
+describe('undo and redo', () => {
+  let model: BasicPyramidSolitaire;
+
+  beforeEach(() => {
+    model = new BasicPyramidSolitaire();
+    // row 0: A♥, row 1: Q♥ K♥, draws: A♠ 2♥, stock starts with 3♥
+    model.startGame(deckStartingWith(model, [new Card(Suit.HEART, 1), new Card(Suit.HEART, 12),
+      new Card(Suit.HEART, 13), new Card(Suit.SPADE, 1), new Card(Suit.HEART, 2),
+      new Card(Suit.HEART, 3)]), false, 2, 2);
+  });
+
+  test('a new game has nothing to undo or redo', () => {
+    expect(model.canUndo()).toBe(false);
+    expect(model.canRedo()).toBe(false);
+    expect(() => model.undo()).toThrow();
+    expect(() => model.redo()).toThrow();
+  });
+
+  test('undo brings back removed pyramid cards', () => {
+    model.remove(1, 1);
+    expect(model.getCardAt(1, 1)).toBeNull();
+    model.undo();
+    expect(model.getCardAt(1, 1).toString()).toBe("K♥");
+    expect(model.canUndo()).toBe(false);
+    expect(model.canRedo()).toBe(true);
+  });
+
+  test('undo restores the draw cards and the stock order', () => {
+    model.discardDraw(0);
+    model.discardDraw(0);
+    expect(model.getDrawCards()[0].toString()).toBe("4♥");
+    model.undo();
+    model.undo();
+    expect(model.getDrawCards().map(card => card.toString())).toEqual(["A♠", "2♥"]);
+    model.discardDraw(1);
+    expect(model.getDrawCards()[1].toString()).toBe("3♥");
+  });
+
+  test('undo reverts a removal using a draw card as a single move', () => {
+    model.remove(1, 1);
+    model.removeUsingDraw(0, 1, 0);
+    model.undo();
+    expect(model.getCardAt(1, 0).toString()).toBe("Q♥");
+    expect(model.getDrawCards()[0].toString()).toBe("A♠");
+    expect(model.getCardAt(1, 1)).toBeNull();
+  });
+
+  test('redo replays undone moves until a new move is made', () => {
+    model.remove(1, 1);
+    model.undo();
+    model.redo();
+    expect(model.getCardAt(1, 1)).toBeNull();
+    model.undo();
+    model.discardDraw(0);
+    expect(model.canRedo()).toBe(false);
+  });
+
+  test('a move that fails is not recorded', () => {
+    expect(() => model.remove(0, 0)).toThrow();
+    expect(model.canUndo()).toBe(false);
+  });
+});
+
+describe('numbered deals', () => {
+  test('the same deal number always gives the same deal', () => {
+    const first: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    const second: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    first.startGame(first.getDeck(), true, 7, 3, {seed: 12345});
+    second.startGame(second.getDeck(), true, 7, 3, {seed: 12345});
+    expect(second.getPyramid()).toEqual(first.getPyramid());
+    expect(second.getDrawCards()).toEqual(first.getDrawCards());
+    expect(first.getDealNumber()).toBe(12345);
+  });
+
+  test('a shuffled deal without a seed is given a deal number', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    model.startGame(model.getDeck(), true, 7, 3);
+    expect(BasicPyramidSolitaire.isValidDealNumber(model.getDealNumber())).toBe(true);
+    model.startGame(model.getDeck(), false, 7, 3);
+    expect(model.getDealNumber()).toBe(-1);
+  });
+
+  test('invalid deal numbers are rejected', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    expect(() => model.startGame(model.getDeck(), true, 7, 3, {seed: 0})).toThrow();
+    expect(() => model.startGame(model.getDeck(), true, 7, 3, {seed: 1.5})).toThrow();
+  });
+});
+
+describe('getLegalMoves', () => {
+  test('lists every single removal, pair and discard', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    // row 0: A♥, row 1: K♥ Q♥, draws: A♠ 2♥
+    model.startGame(deckStartingWith(model, [new Card(Suit.HEART, 1), new Card(Suit.HEART, 13),
+      new Card(Suit.HEART, 12), new Card(Suit.SPADE, 1), new Card(Suit.HEART, 2)]), false, 2, 2);
+    expect(model.getLegalMoves()).toEqual([
+      {type: MoveType.REMOVE, row: 1, card: 0},
+      {type: MoveType.REMOVE_USING_DRAW, drawIndex: 0, row: 1, card: 1},
+      {type: MoveType.DISCARD_DRAW, drawIndex: 0},
+      {type: MoveType.DISCARD_DRAW, drawIndex: 1}]);
+
+    model.remove(1, 0);
+    model.removeUsingDraw(0, 1, 1);
+    // A♥ is now uncovered, but neither 3♥ nor 2♥ pairs with it
+    expect(model.getLegalMoves()).toEqual([
+      {type: MoveType.DISCARD_DRAW, drawIndex: 0},
+      {type: MoveType.DISCARD_DRAW, drawIndex: 1}]);
+  });
+
+  test('marks the cards of every removal as playable, but not cards which can only be discarded', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    // row 0: A♥, row 1: K♥ Q♥, draws: A♠ 2♥
+    model.startGame(deckStartingWith(model, [new Card(Suit.HEART, 1), new Card(Suit.HEART, 13),
+      new Card(Suit.HEART, 12), new Card(Suit.SPADE, 1), new Card(Suit.HEART, 2)]), false, 2, 2);
+    expect(model.getPlayablePositions()).toEqual([{row: 1, card: 0}, {row: 1, card: 1}, {row: -1, card: 0}]);
+
+    model.remove(1, 0);
+    model.removeUsingDraw(0, 1, 1);
+    expect(model.getPlayablePositions()).toEqual([]);
+  });
+
+  test('cannot be listed before the game has started', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    expect(errorOf(() => model.getLegalMoves()).code).toBe(ErrorCode.GAME_NOT_STARTED);
+    expect(errorOf(() => model.getPlayablePositions()).code).toBe(ErrorCode.GAME_NOT_STARTED);
+  });
+
+  test('every listed move can be made', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    model.startGame(model.getDeck(), true, 7, 3, {seed: 2021});
+    model.getLegalMoves().forEach(move => {
+      const copy: BasicPyramidSolitaire = model.copy();
+      expect(() => copy.makeMove(move)).not.toThrow();
+    });
+  });
+});
+
+describe('saving as JSON', () => {
+  let model: BasicPyramidSolitaire;
+
+  beforeEach(() => {
+    model = new BasicPyramidSolitaire();
+    model.startGame(model.getDeck(), true, 7, 3, {seed: 99});
+    model.getLegalMoves().slice(0, 1).forEach(move => model.makeMove(move));
+    model.discardDraw(1);
+  });
+
+  test('a saved game resumes exactly as it was left', () => {
+    const resumed: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    resumed.fromJSON(JSON.parse(JSON.stringify(model.toJSON())));
+    expect(resumed.getPyramid()).toEqual(model.getPyramid());
+    expect(resumed.getDrawCards()).toEqual(model.getDrawCards());
+    expect(resumed.getStock()).toEqual(model.getStock());
+    expect(resumed.getScore()).toBe(model.getScore());
+    expect(resumed.getDealNumber()).toBe(99);
+  });
+
+  test('invalid saved games are rejected without changing the game', () => {
+    const resumed: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    resumed.startGame(resumed.getDeck(), false, 3, 1);
+    const saved = model.toJSON();
+    expect(() => resumed.fromJSON(null)).toThrow();
+    expect(() => resumed.fromJSON({...saved, version: 99})).toThrow(/version/);
+    expect(() => resumed.fromJSON({...saved, score: saved.score + 1})).toThrow(/score/);
+    expect(() => resumed.fromJSON({...saved, pyramid: saved.pyramid.slice(1)})).toThrow(/shape/);
+    expect(() => resumed.fromJSON({...saved, stock: saved.stock.concat([saved.stock[0]])}))
+      .toThrow(/more than once/);
+    expect(resumed.getNumRows()).toBe(3);
+  });
+});
+
+describe('recording', () => {
+  test('replaying a recording reaches the same position', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    model.startGame(model.getDeck(), true, 7, 3, {seed: 321});
+    for (let moves = 0; moves < 6; moves++) {
+      model.makeMove(model.getLegalMoves()[0]);
+    }
+    model.undo();
+
+    const recording: GameRecording = model.getRecording();
+    expect(recording.moves.length).toBe(5);
+    expect(recording.dealNumber).toBe(321);
+
+    const replayed: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    replayed.startGame(recording.deck.map(card => Card.fromJSON(card)), false,
+      recording.numRows, recording.numDraw);
+    recording.moves.forEach(recorded => replayed.makeMove(recorded.move));
+    expect(replayed.getPyramid()).toEqual(model.getPyramid());
+    expect(replayed.getDrawCards()).toEqual(model.getDrawCards());
+    expect(replayed.getStock()).toEqual(model.getStock());
+  });
+});
+
+describe('redeals', () => {
+  let model: BasicPyramidSolitaire;
+
+  /**
+   * Starts a game with A♥ as the pyramid and 2♥ as the only draw card, with the given number of
+   * redeals, and discards draw cards until the stock is empty.
+   */
+  function startAndEmptyStock(redeals?: number): void {
+    model.startGame(deckStartingWith(model, [new Card(Suit.HEART, 1), new Card(Suit.HEART, 2)]),
+      false, 1, 1, {redeals: redeals});
+    while (model.getStockSize() > 0) {
+      model.discardDraw(0);
+    }
+  }
+
+  beforeEach(() => {
+    model = new BasicPyramidSolitaire();
+  });
+
+  test('discarded draw cards go to the waste', () => {
+    startAndEmptyStock();
+    expect(model.getWaste().length).toBe(50);
+    expect(model.getWaste()[0].toString()).toBe("2♥");
+    expect(model.getRedealsLeft()).toBe(0);
+    expect(model.isGameOver()).toBe(true);
+  });
+
+  test('the waste is turned over once the stock runs out', () => {
+    startAndEmptyStock(1);
+    expect(model.isGameOver()).toBe(false);
+    model.discardDraw(0);
+    expect(model.getDrawCards()[0].toString()).toBe("2♥");
+    expect(model.getStockSize()).toBe(50);
+    expect(model.getWaste().length).toBe(0);
+    expect(model.getRedealsLeft()).toBe(0);
+
+    model.undo();
+    expect(model.getStockSize()).toBe(0);
+    expect(model.getWaste().length).toBe(50);
+    expect(model.getRedealsLeft()).toBe(1);
+  });
+
+  test('the waste and redeals are saved', () => {
+    startAndEmptyStock(2);
+    const resumed: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    resumed.fromJSON(JSON.parse(JSON.stringify(model.toJSON())));
+    expect(resumed.getWaste()).toEqual(model.getWaste());
+    expect(resumed.getRedealsLeft()).toBe(2);
+
+    // games saved before the waste was added have none
+    const saved = model.toJSON();
+    resumed.fromJSON({...saved, version: 2, stock: saved.waste, waste: undefined, redealsLeft: undefined});
+    expect(resumed.getWaste()).toEqual([]);
+    expect(resumed.getRedealsLeft()).toBe(0);
+  });
+
+  test('invalid numbers of redeals are rejected', () => {
+    expect(() => model.startGame(model.getDeck(), false, 7, 3, {redeals: -1})).toThrow();
+    expect(() => model.startGame(model.getDeck(), false, 7, 3, {redeals: 0.5})).toThrow();
+  });
+});
+
+describe('removal value and deck make-up', () => {
+  test('cards are removed when they sum to the removal value of the game', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    // row 0: A♥, row 1: J♥ 10♥, draws: A♠
+    model.startGame(deckStartingWith(model, [new Card(Suit.HEART, 1), new Card(Suit.HEART, 11),
+      new Card(Suit.HEART, 10), new Card(Suit.SPADE, 1)]), false, 2, 1, {removalValue: 11});
+    expect(model.getRemovalValue()).toBe(11);
+    model.remove(1, 0);
+    model.removeUsingDraw(0, 1, 1);
+    expect(() => model.remove(0, 0)).toThrow(/value of 11/);
+    expect(() => model.startGame(model.getDeck(), false, 7, 3, {removalValue: 0})).toThrow();
+  });
+
+  test('a card cannot be paired with itself, even if it is worth half of the removal value', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    // row 0: 7♥
+    model.startGame(deckStartingWith(model, [new Card(Suit.HEART, 7)]), false, 1, 0, {removalValue: 14});
+    expect(() => model.removeTwo(0, 0, 0, 0)).toThrow(/itself/);
+    expect(model.getCardAt(0, 0).toString()).toBe("7♥");
+    expect(model.isGameOver()).toBe(true);
+  });
+
+  test('the deck is made up as specified', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire({values: [1, 12, 13, 14], copies: 2});
+    expect(model.getDeck().length).toBe(32);
+    expect(model.getDeck().filter(card => card.equals(new Card(Suit.CLUB, 14))).length).toBe(2);
+    expect(() => model.startGame(new BasicPyramidSolitaire().getDeck(), false, 3, 1)).toThrow();
+    expect(() => model.startGame(model.getDeck(), false, 8, 3)).toThrow(/Not enough cards/);
+    model.startGame(model.getDeck(), true, 7, 3, {seed: 5});
+    expect(model.copy().getDeck()).toEqual(model.getDeck());
+    expect(() => new BasicPyramidSolitaire({values: [1, 1], copies: 1})).toThrow();
+    expect(() => new BasicPyramidSolitaire({values: [1, 2], copies: 0})).toThrow();
+  });
+
+  test('a saved game keeps its deck and removal value', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire({values: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10], copies: 1});
+    model.startGame(model.getDeck(), true, 5, 2, {seed: 8, removalValue: 11});
+    const resumed: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    resumed.fromJSON(JSON.parse(JSON.stringify(model.toJSON())));
+    expect(resumed.getDeckSpec()).toEqual(model.getDeckSpec());
+    expect(resumed.getRemovalValue()).toBe(11);
+    expect(resumed.getPyramid()).toEqual(model.getPyramid());
+    expect(() => resumed.fromJSON({...model.toJSON(), deck: {values: [], copies: 1}})).toThrow(/deck/);
+  });
+});
+
+describe('events', () => {
+  let model: BasicPyramidSolitaire;
+  let events: Array<GameEvent>;
+  const listener = (event: GameEvent) => events.push(event);
+
+  beforeEach(() => {
+    model = new BasicPyramidSolitaire();
+    events = [];
+    model.subscribe(listener);
+    // row 0: Q♥, row 1: A♥ K♥, draws: A♠, stock: 2♥
+    model.startGame(deckStartingWith(model, [new Card(Suit.HEART, 12), new Card(Suit.HEART, 1),
+      new Card(Suit.HEART, 13), new Card(Suit.SPADE, 1)]), false, 2, 1);
+  });
+
+  test('starting a game is announced with what is dealt', () => {
+    expect(events.map(event => event.type)).toEqual([GameEventType.GAME_STARTED]);
+    expect(events[0]).toMatchObject({pyramid: model.getPyramid(), draws: model.getDrawCards(),
+      stockSize: 48, score: 26, resumed: false});
+  });
+
+  test('moves are announced once the game has changed', () => {
+    events = [];
+    model.remove(1, 1);
+    expect(events).toEqual([
+      {type: GameEventType.CARDS_REMOVED, move: {type: MoveType.REMOVE, row: 1, card: 1},
+        cards: [new Card(Suit.HEART, 13)]},
+      {type: GameEventType.SCORE_CHANGED, score: 13, previousScore: 26}]);
+
+    events = [];
+    model.discardDraw(0);
+    expect(events.map(event => event.type)).toEqual([GameEventType.DRAW_DISCARDED,
+      GameEventType.DRAW_REPLENISHED]);
+    expect(events[1]).toMatchObject({drawIndex: 0, card: model.getDrawCards()[0], stockSize: 47,
+      wasteSize: 1});
+  });
+
+  test('the end of the game is announced', () => {
+    // row 0: K♥, row 1: Q♥ A♥
+    model.startGame(deckStartingWith(model, [new Card(Suit.HEART, 13), new Card(Suit.HEART, 12),
+      new Card(Suit.HEART, 1)]), false, 2, 1);
+    model.removeTwo(1, 0, 1, 1);
+    events = [];
+    model.remove(0, 0);
+    expect(events.map(event => event.type)).toEqual([GameEventType.CARDS_REMOVED,
+      GameEventType.SCORE_CHANGED, GameEventType.GAME_OVER]);
+    expect(events[2]).toEqual({type: GameEventType.GAME_OVER, won: true, score: 0});
+  });
+
+  test('undo restores the state and announces it', () => {
+    model.remove(1, 1);
+    events = [];
+    model.undo();
+    expect(events.map(event => event.type)).toEqual([GameEventType.STATE_RESTORED,
+      GameEventType.SCORE_CHANGED]);
+    expect(events[0]).toMatchObject({pyramid: model.getPyramid(), score: 26});
+  });
+
+  test('the last card of the stock is announced', () => {
+    while (model.getStockSize() > 1) {
+      model.discardDraw(0);
+    }
+    events = [];
+    model.discardDraw(0);
+    expect(events.map(event => event.type)).toEqual([GameEventType.DRAW_DISCARDED,
+      GameEventType.DRAW_REPLENISHED, GameEventType.STOCK_EXHAUSTED]);
+  });
+
+  test('unsubscribed listeners and copies are not told', () => {
+    const copy: BasicPyramidSolitaire = model.copy();
+    events = [];
+    copy.remove(1, 1);
+    model.unsubscribe(listener);
+    model.remove(1, 1);
+    expect(events).toEqual([]);
+  });
+});
+
+describe('scoring', () => {
+  let model: BasicPyramidSolitaire;
+  // row 0: K♥, row 1: Q♥ A♥
+  let deck: Array<Card>;
+
+  beforeEach(() => {
+    model = new BasicPyramidSolitaire();
+    deck = deckStartingWith(model, [new Card(Suit.HEART, 13), new Card(Suit.HEART, 12),
+      new Card(Suit.HEART, 1)]);
+  });
+
+  test('is the sum of the pyramid unless another policy is chosen', () => {
+    model.startGame(deck, false, 2, 1);
+    expect(model.getScoringPolicy().type).toBe(ScoringType.PYRAMID_SUM);
+    expect(model.getScore()).toBe(26);
+    expect(model.hasWon()).toBe(false);
+  });
+
+  test('pays for every card cleared, and is won once the pyramid is cleared', () => {
+    model.startGame(deck, false, 2, 1, {scoring: ScoringType.VEGAS});
+    expect(model.getScore()).toBe(-52);
+    model.removeTwo(1, 0, 1, 1);
+    expect(model.getScore()).toBe(-42);
+    expect(model.hasWon()).toBe(false);
+    model.remove(0, 0);
+    expect(model.getScore()).toBe(-37);
+    expect(model.hasWon()).toBe(true);
+    expect(model.getScoringPolicy().format(-37)).toBe("-$37");
+  });
+
+  test('gives a bonus for clearing the pyramid in few moves', () => {
+    model.startGame(deck, false, 2, 1, {scoring: ScoringType.TIME_BONUS});
+    model.removeTwo(1, 0, 1, 1);
+    expect(model.getScore()).toBe(20);
+    model.remove(0, 0);
+    // at most a second or two has passed, which costs two points each
+    expect(model.getScore()).toBeGreaterThanOrEqual(30 + 700 - 10 - 4);
+    expect(model.getScore()).toBeLessThanOrEqual(30 + 700 - 10);
+  });
+
+  test('is saved with the game', () => {
+    model.startGame(deck, false, 2, 1, {scoring: ScoringType.PER_CARD});
+    model.removeTwo(1, 0, 1, 1);
+    const resumed: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    resumed.fromJSON(JSON.parse(JSON.stringify(model.toJSON())));
+    expect(resumed.getScoringPolicy().type).toBe(ScoringType.PER_CARD);
+    expect(resumed.getScore()).toBe(10);
+    expect(() => resumed.fromJSON({...model.toJSON(), scoring: "Golf"})).toThrow(/scoring/);
+  });
+
+  test('rejects an unknown policy', () => {
+    expect(() => model.startGame(deck, false, 2, 1, {scoring: "Golf" as ScoringType})).toThrow(/scoring/);
+  });
+});
+
+/**
+ * Returns the error thrown by the given action, failing if it throws none.
+ */
+function errorOf(action: () => void): PyramidSolitaireError {
+  try {
+    action();
+  } catch (e) {
+    return e;
+  }
+  throw new Error("Nothing was thrown.");
+}
+
+describe('illegal moves', () => {
+  let model: BasicPyramidSolitaire;
+
+  beforeEach(() => {
+    model = new BasicPyramidSolitaire();
+    // row 0: K♥, row 1: Q♥ A♥, draws: 5♠
+    model.startGame(deckStartingWith(model, [new Card(Suit.HEART, 13), new Card(Suit.HEART, 12),
+      new Card(Suit.HEART, 1), new Card(Suit.SPADE, 5)]), false, 2, 1);
+  });
+
+  test('are refused with the code of the reason and the positions of the cards', () => {
+    const covered: PyramidSolitaireError = errorOf(() => model.remove(0, 0));
+    expect(covered).toBeInstanceOf(PyramidSolitaireError);
+    expect(covered).toBeInstanceOf(Error);
+    expect(covered.code).toBe(ErrorCode.CARD_COVERED);
+    expect(covered.positions).toEqual([{row: 0, card: 0}]);
+
+    expect(errorOf(() => model.remove(5, 0)).code).toBe(ErrorCode.OUT_OF_BOUNDS);
+    expect(errorOf(() => new BasicPyramidSolitaire().getCardAt(0, 0)).code).toBe(ErrorCode.GAME_NOT_STARTED);
+    model.removeTwo(1, 0, 1, 1);
+    const empty: PyramidSolitaireError = errorOf(() => model.removeUsingDraw(0, 1, 1));
+    expect(empty.code).toBe(ErrorCode.EMPTY_POSITION);
+    expect(empty.positions).toEqual([{row: 1, card: 1}]);
+  });
+
+  test('that do not add up say which cards were used', () => {
+    const wrongSum: WrongSumError = errorOf(() => model.removeUsingDraw(0, 1, 0)) as WrongSumError;
+    expect(wrongSum.code).toBe(ErrorCode.WRONG_SUM);
+    expect(wrongSum.positions).toEqual([{row: -1, card: 0}, {row: 1, card: 0}]);
+    expect(wrongSum.cards.map(card => card.toString())).toEqual(["5♠", "Q♥"]);
+    expect(wrongSum.getSum()).toBe(17);
+    expect(wrongSum.removalValue).toBe(13);
+  });
+
+  test('that pair a card with itself say which card it was', () => {
+    model.startGame(deckStartingWith(model, [new Card(Suit.HEART, 7)]), false, 1, 0, {removalValue: 14});
+    const sameCard: PyramidSolitaireError = errorOf(() => model.removeTwo(0, 0, 0, 0));
+    expect(sameCard).toBeInstanceOf(SameCardError);
+    expect(sameCard.code).toBe(ErrorCode.SAME_CARD);
+    expect(sameCard.positions).toEqual([{row: 0, card: 0}]);
+  });
+});
+
+describe('game over', () => {
+  test('is not reached while a pyramid card can be removed with a draw card', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    model.startGame(model.getDeck(), false, 1, 1);
+    // row 0: A♥, draws: Q♥, with nothing left in the stock
+    model.fromJSON({...model.toJSON(), pyramid: [[{suit: Suit.HEART, value: 1}]],
+      draws: [{suit: Suit.HEART, value: 12}], stock: [], score: 1});
+    expect(model.isGameOver()).toBe(false);
+
+    const events: Array<GameEvent> = [];
+    model.subscribe(event => events.push(event));
+    model.removeUsingDraw(0, 0, 0);
+    expect(model.isGameOver()).toBe(true);
+    expect(events.filter(event => event.type === GameEventType.GAME_OVER))
+      .toEqual([{type: GameEventType.GAME_OVER, won: true, score: 0}]);
+  });
+});
@@ -1,5 +1,7 @@
-import {Card} from "./Card";
 import {AbstractSinglePyramidSolitaireModel} from "./AbstractSinglePyramidSolitaireModel";
+import {GameType} from "./GameType";
+import {DeckSpec} from "./DeckSpec";
+import {AbstractPyramidSolitaire} from "./AbstractPyramidSolitaire";
 
 /**
  * Represents the model of a game of pyramid solitaire, which is a game of solitaire in which the
@@ -15,22 +17,23 @@ import {AbstractSinglePyramidSolitaireModel} from "./AbstractSinglePyramidSolita
 export class BasicPyramidSolitaire extends AbstractSinglePyramidSolitaireModel {
 
     /**
-     * Constructs a {@code BasicPyramidSolitaire} object.
+     * Constructs a {@code BasicPyramidSolitaire} object played with a deck of the given make-up.
+     *
+     * @param deckSpec the make-up of the deck, a standard deck of 52 cards if not given
+     * @throws Error if the make-up of the deck is not valid
      */
-    constructor() {
+    constructor(deckSpec: DeckSpec = AbstractPyramidSolitaire.standardDeck(1)) {
         // instantiates GameStart to be not yet started.
-        super();
+        super(deckSpec);
     }
 
-    getPyramid(): Array<Array<Card>> {
-        let result: Array<Array<Card>> = new Array<Array<Card>>();
-        this.pyramid.forEach(function (row) {
-            let rowCopy: Array<Card> = new Array<Card>();
-            row.forEach(function (card) {
-                rowCopy.push(card);
-            })
-            result.push(rowCopy);
-        })
+    getGameType(): GameType {
+        return GameType.BASIC;
+    }
+
+    copy(): BasicPyramidSolitaire {
+        let result: BasicPyramidSolitaire = new BasicPyramidSolitaire(this.getDeckSpec());
+        result.copyStateFrom(this);
         return result;
     }
 }
\ No newline at end of file
@@ -0,0 +1,35 @@
+import {BoardLayout} from "./BoardLayout";
+import {Pos2D} from "./Pos2D";
+
+describe('BoardLayout', () => {
+  test('a pyramid of seven rows with three draw cards fills the smallest board', () => {
+    const layout: BoardLayout = new BoardLayout(7, 7, 3);
+    expect(layout.getWidth()).toBe(700);
+    expect(layout.getHeight()).toBe(800);
+    expect(layout.getPyramidCard(0, 0, 1)).toEqual(new Pos2D(310, 20));
+    expect(layout.getPyramidCard(6, 0, 7)).toEqual(new Pos2D(115, 380));
+    expect(layout.getDrawCard(2)).toEqual(new Pos2D(150, 515));
+    expect(layout.getDiscardZone()).toEqual(new Pos2D(500, 515));
+    expect(layout.isInDiscardZone(530, 550)).toBe(true);
+    expect(layout.isInDiscardZone(150, 550)).toBe(false);
+    expect(layout.getStockPile()).toEqual(new Pos2D(600, 515));
+  });
+
+  test('the board grows to fit larger pyramids and more draw cards', () => {
+    const layout: BoardLayout = new BoardLayout(12, 12, 8);
+    expect(layout.getWidth()).toBe(115 + 12 * 65 + 20);
+    expect(layout.getHeight()).toBeGreaterThan(800);
+    const bottomRight: Pos2D = layout.getPyramidCard(11, 11, 12);
+    expect(bottomRight.getX() + BoardLayout.CARD_WIDTH).toBeLessThanOrEqual(layout.getWidth());
+    expect(layout.getDiscardZone().getX()).toBeGreaterThan(layout.getDrawCard(7).getX() + BoardLayout.CARD_WIDTH);
+  });
+
+  test('the board is scaled to fit the canvas, and points on the canvas are scaled back', () => {
+    const layout: BoardLayout = new BoardLayout(7, 7, 3);
+    layout.fitTo(350, Infinity);
+    expect(layout.getScale()).toBe(0.5);
+    expect(layout.toBoard(100, 40)).toEqual(new Pos2D(200, 80));
+    layout.fitTo(1400, 800);
+    expect(layout.getScale()).toBe(1);
+  });
+});
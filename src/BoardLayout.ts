@@ -0,0 +1,234 @@
+import {Pos2D} from "./Pos2D";
+
+/**
+ * Represents the layout of the table of a game of pyramid solitaire on a canvas: where every card
+ * and label goes, and how the table is scaled to fit the canvas.
+ * <p>Positions are worked out in board units, in which a card is always {@link CARD_WIDTH} by
+ * {@link CARD_HEIGHT}, and the board grows with the pyramid and the draw pile so that everything
+ * fits on it. The board is never smaller than {@link MIN_WIDTH} by {@link MIN_HEIGHT} units. The
+ * whole board is then scaled to the size of the canvas, so a larger pyramid is drawn with smaller
+ * cards rather than running off the edge.</p>
+ */
+export class BoardLayout {
+    static readonly CARD_WIDTH = 60;
+    static readonly CARD_HEIGHT = 70;
+    // the space between two cards of a row, and how much of a card the row below it covers
+    static readonly CARD_GAP = 5;
+    static readonly ROW_OVERLAP = 10;
+    // the space left around the pyramid for the legend on its left and the top of the board
+    static readonly LEGEND_WIDTH = 115;
+    static readonly TOP_MARGIN = 20;
+    static readonly SIDE_MARGIN = 20;
+    // the width of the score shown at the right of the board
+    static readonly SCORE_WIDTH = 200;
+    static readonly MIN_WIDTH = 700;
+    static readonly MIN_HEIGHT = 800;
+    private readonly numRows: number;
+    private readonly bottomWidth: number;
+    private readonly numDraw: number;
+    private readonly width: number;
+    private readonly height: number;
+    private scale: number;
+
+    /**
+     * Creates a BoardLayout object for a pyramid of the given height and width, with the given
+     * number of draw cards, scaled to one pixel per unit until {@link fitTo} is called.
+     *
+     * @param numRows     the number of rows of the pyramid
+     * @param bottomWidth the number of positions in the bottom row of the pyramid
+     * @param numDraw     the number of draw cards
+     */
+    constructor(numRows: number, bottomWidth: number, numDraw: number) {
+        this.numRows = numRows;
+        this.bottomWidth = bottomWidth;
+        this.numDraw = numDraw;
+        this.width = Math.max(BoardLayout.MIN_WIDTH,
+            BoardLayout.LEGEND_WIDTH + bottomWidth * BoardLayout.columnWidth() + BoardLayout.SIDE_MARGIN,
+            this.getStockPile().getX() + BoardLayout.CARD_WIDTH + BoardLayout.SIDE_MARGIN);
+        this.height = Math.max(BoardLayout.MIN_HEIGHT, this.pyramidBottom() + 200);
+        this.scale = 1;
+    }
+
+    /**
+     * Scales the board to the largest size at which it fits within the given size on the screen.
+     *
+     * @param maxWidth  the most pixels the board may be across
+     * @param maxHeight the most pixels the board may be down
+     */
+    fitTo(maxWidth: number, maxHeight: number): void {
+        this.scale = Math.min(maxWidth / this.width, maxHeight / this.height);
+    }
+
+    /**
+     * Returns the number of pixels on the screen one unit of the board takes up.
+     *
+     * @return the scale of the board
+     */
+    getScale(): number {
+        return this.scale;
+    }
+
+    /**
+     * Returns the width of the board, in units.
+     *
+     * @return the width of the board
+     */
+    getWidth(): number {
+        return this.width;
+    }
+
+    /**
+     * Returns the height of the board, in units.
+     *
+     * @return the height of the board
+     */
+    getHeight(): number {
+        return this.height;
+    }
+
+    /**
+     * Returns the position on the board of the given point on the canvas, measured in pixels from
+     * the top left corner of the canvas.
+     *
+     * @param x the number of pixels from the left of the canvas
+     * @param y the number of pixels from the top of the canvas
+     * @return the position on the board
+     */
+    toBoard(x: number, y: number): Pos2D {
+        return new Pos2D(x / this.scale, y / this.scale);
+    }
+
+    /**
+     * Returns the top left corner of the card at the given position of the pyramid, with each row
+     * centred above the bottom row. Rows are measured including any gaps between their cards, so
+     * that the cards of every pyramid line up.
+     *
+     * @param row      the row of the card
+     * @param col      the column of the card
+     * @param rowWidth the width of the row of the card, in positions
+     * @return the position of the card on the board
+     */
+    getPyramidCard(row: number, col: number, rowWidth: number): Pos2D {
+        return new Pos2D(BoardLayout.LEGEND_WIDTH
+            + (this.bottomWidth - rowWidth + 2 * col) * BoardLayout.columnWidth() / 2,
+            BoardLayout.TOP_MARGIN + row * (BoardLayout.CARD_HEIGHT - BoardLayout.ROW_OVERLAP));
+    }
+
+    /**
+     * Returns the top left corner of the draw card with the given index.
+     *
+     * @param index the index of the draw card
+     * @return the position of the card on the board
+     */
+    getDrawCard(index: number): Pos2D {
+        return new Pos2D(BoardLayout.SIDE_MARGIN + index * BoardLayout.columnWidth(),
+            this.pyramidBottom() + 65);
+    }
+
+    /**
+     * Returns the top left corner of the zone cards can be dragged onto to be discarded, which is
+     * at the right of the draw cards, the size of a card.
+     *
+     * @return the position of the discard zone on the board
+     */
+    getDiscardZone(): Pos2D {
+        return new Pos2D(Math.max(500, this.getDrawCard(this.numDraw).getX() + 40),
+            this.getDrawCard(0).getY());
+    }
+
+    /**
+     * Returns the top left corner of the stock pile, which is drawn face down at the right of the
+     * discard zone and is where new draw cards come from.
+     *
+     * @return the position of the stock pile on the board
+     */
+    getStockPile(): Pos2D {
+        return new Pos2D(this.getDiscardZone().getX() + BoardLayout.CARD_WIDTH + 40, this.getDrawCard(0).getY());
+    }
+
+    /**
+     * Returns whether the given position on the board is within the discard zone.
+     *
+     * @param x the x position on the board
+     * @param y the y position on the board
+     * @return whether the position is in the discard zone
+     */
+    isInDiscardZone(x: number, y: number): boolean {
+        const zone: Pos2D = this.getDiscardZone();
+        return x > zone.getX() && x < zone.getX() + BoardLayout.CARD_WIDTH
+            && y > zone.getY() && y < zone.getY() + BoardLayout.CARD_HEIGHT;
+    }
+
+    /**
+     * Returns where the labels of the draw cards and the discard zone are written, above them.
+     *
+     * @return the height of the labels of the draw pile on the board
+     */
+    getDrawLabelY(): number {
+        return this.pyramidBottom() + 50;
+    }
+
+    /**
+     * Returns where the sizes of the stock and the waste are written, below the draw cards.
+     *
+     * @return the position of the stock on the board
+     */
+    getStock(): Pos2D {
+        return new Pos2D(25, this.pyramidBottom() + 180);
+    }
+
+    /**
+     * Returns where messages to the player are written, among the draw cards.
+     *
+     * @return the position of messages on the board
+     */
+    getMessage(): Pos2D {
+        return new Pos2D(30, this.pyramidBottom() + 100);
+    }
+
+    /**
+     * Returns where the score is written, at the top right of the board.
+     *
+     * @return the position of the score on the board
+     */
+    getScore(): Pos2D {
+        return new Pos2D(this.width - BoardLayout.SCORE_WIDTH, 175);
+    }
+
+    /**
+     * Returns where the legend of the values of the cards starts, at the left of the pyramid.
+     *
+     * @return the position of the legend on the board
+     */
+    getLegend(): Pos2D {
+        return new Pos2D(25, 150);
+    }
+
+    /**
+     * Returns where removed cards fly off to, past the top right corner of the board.
+     *
+     * @return the position removed cards fly to
+     */
+    getFlyOff(): Pos2D {
+        return new Pos2D(this.width + 60, -100);
+    }
+
+    /**
+     * Returns the height of the bottom edge of the bottom row of the pyramid.
+     *
+     * @return the bottom of the pyramid on the board
+     */
+    private pyramidBottom(): number {
+        return BoardLayout.TOP_MARGIN + (this.numRows - 1) * (BoardLayout.CARD_HEIGHT - BoardLayout.ROW_OVERLAP)
+            + BoardLayout.CARD_HEIGHT;
+    }
+
+    /**
+     * Returns the distance from the left of one card of a row to the left of the next.
+     *
+     * @return the width of a column of cards
+     */
+    private static columnWidth(): number {
+        return BoardLayout.CARD_WIDTH + BoardLayout.CARD_GAP;
+    }
+}
@@ -1,4 +1,5 @@
 import {Suit} from "./Suit";
+import {SavedCard} from "./SavedGame";
 
 /**
  * Represents a card in a standard deck of 52 with a suit and a value.
@@ -27,6 +28,39 @@ export class Card {
         return this.value;
     }
 
+    /**
+     * Returns the suit of this card.
+     *
+     * @return the suit field of this card
+     */
+    getSuit(): Suit {
+        return this.suit;
+    }
+
+    /**
+     * Returns the form in which this card is written when saved as JSON.
+     *
+     * @return the saved form of this card
+     */
+    toJSON(): SavedCard {
+        return {suit: this.suit, value: this.value};
+    }
+
+    /**
+     * Returns the card saved in the given data, as written by {@link toJSON}.
+     *
+     * @param data the saved form of the card
+     * @return the card
+     * @throws Error if the data is not a valid saved card
+     */
+    static fromJSON(data: any): Card {
+        let suits: Array<string> = Object.values(Suit);
+        if (data == null || suits.indexOf(data.suit) == -1 || !Number.isInteger(data.value)) {
+            throw new Error("The saved card " + JSON.stringify(data) + " is not a valid card.");
+        }
+        return new Card(data.suit as Suit, data.value);
+    }
+
     /**
      * Equality check for a given object and this Card, returns true if the given object is a Card,
      * and all the attributes of the given Card are the same as this card.
@@ -45,16 +79,27 @@ export class Card {
     }
 
      toString(): string {
-        if (this.value == 1) {
-            return "A" + this.suit.toString();
-        } else if (this.value == 11) {
-            return "J" + this.suit.toString();
-        } else if (this.value == 12) {
-            return "Q" + this.suit.toString();
-        } else if (this.value == 13) {
-            return "K" + this.suit.toString();
+        return Card.rankLabel(this.value) + this.suit.toString();
+    }
+
+    /**
+     * Returns the rank shown on a card of the given value, a letter for aces and the face cards and
+     * the value itself otherwise.
+     *
+     * @param value the value of a card
+     * @return the rank of a card of the given value
+     */
+    static rankLabel(value: number): string {
+        if (value == 1) {
+            return "A";
+        } else if (value == 11) {
+            return "J";
+        } else if (value == 12) {
+            return "Q";
+        } else if (value == 13) {
+            return "K";
         } else {
-            return "" + this.value + this.suit.toString();
+            return "" + value;
         }
     }
 
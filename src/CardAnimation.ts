@@ -0,0 +1,19 @@
+import {ViewCard} from "./ViewCard";
+
+/**
+ * Represents a card moving across the table, from one offset from where it was dealt to another.
+ */
+export interface CardAnimation {
+    // the card being moved, or a copy of it if it has been removed
+    readonly card: ViewCard;
+    // whether the card is a copy of a removed card, drawn fading out by the animator itself
+    readonly ghost: boolean;
+    // the offsets from where the card was dealt at which the card starts and ends
+    readonly fromX: number;
+    readonly fromY: number;
+    readonly toX: number;
+    readonly toY: number;
+    // the time the animation started, in milliseconds, and how long it lasts
+    readonly startTime: number;
+    readonly duration: number;
+}
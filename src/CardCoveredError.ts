@@ -0,0 +1,18 @@
+import {PyramidSolitaireError} from "./PyramidSolitaireError";
+import {ErrorCode} from "./ErrorCode";
+import {CardPosition} from "./CardPosition";
+
+/**
+ * Represents the error of removing a card of the pyramid which is still covered.
+ */
+export class CardCoveredError extends PyramidSolitaireError {
+
+    /**
+     * Creates a CardCoveredError object.
+     * @param positions the positions of the covered cards
+     */
+    constructor(positions: Array<CardPosition>) {
+        super(ErrorCode.CARD_COVERED, "The card at the given index is covered and therefore cannot be removed.",
+            positions);
+    }
+}
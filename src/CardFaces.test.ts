@@ -0,0 +1,56 @@
+import {CardFaces} from "./CardFaces";
+import {Themes} from "./Themes";
+import {GameStorage} from "./GameStorage";
+import {ignoringContext} from "./testUtils";
+
+/**
+ * Returns a drawing context which ignores everything drawn on it, keeping the text written on it.
+ */
+function writingContext(written: Array<string>): CanvasRenderingContext2D {
+  return ignoringContext((name: string, args: Array<unknown>) => {
+    if (name === "fillText") {
+      written.push(String(args[0]));
+    }
+  });
+}
+
+describe('CardFaces', () => {
+  test('colours the suits in the theme, giving diamonds and clubs their own colours if asked', () => {
+    const faces: CardFaces = new CardFaces(Themes.CLASSIC, false, () => undefined);
+    expect(["10♥", "A♦", "K♣", "J♠"].map(label => faces.suitColor(label))).toEqual(
+      [Themes.CLASSIC.redSuit, Themes.CLASSIC.redSuit, Themes.CLASSIC.blackSuit, Themes.CLASSIC.blackSuit]);
+
+    faces.setTheme(Themes.MIDNIGHT, true);
+    expect(faces.getTheme()).toBe(Themes.MIDNIGHT);
+    expect(["10♥", "A♦", "K♣", "J♠"].map(label => faces.suitColor(label))).toEqual(
+      [Themes.MIDNIGHT.redSuit, CardFaces.FOUR_COLOR_DIAMOND, CardFaces.FOUR_COLOR_CLUB, Themes.MIDNIGHT.blackSuit]);
+  });
+
+  test('writes the ranks and the suits in place of the sprite set until it has loaded', () => {
+    const faces: CardFaces = new CardFaces(Themes.CLASSIC, false, () => undefined);
+    const written: Array<string> = [];
+    faces.drawFace(writingContext(written), "10♥", 0, 0, 60, 70);
+    // both corners, then the large pip
+    expect(written).toEqual(["10", "♥", "10", "♥", "♥"]);
+
+    written.length = 0;
+    faces.drawFace(writingContext(written), "K♠", 0, 0, 60, 70);
+    // a court card has its rank in the middle instead of the art
+    expect(written).toEqual(["K", "♠", "K", "♠", "K"]);
+  });
+});
+
+describe('Themes', () => {
+  test('finds themes by their name, falling back to the classic theme', () => {
+    expect(Themes.named("Casino")).toBe(Themes.CASINO);
+    expect(Themes.named("Neon")).toBe(Themes.CLASSIC);
+    expect(new Set(Themes.ALL.map(theme => theme.name)).size).toBe(Themes.ALL.length);
+  });
+
+  test('saves the choice of theme between sessions', () => {
+    window.localStorage.clear();
+    expect(GameStorage.loadTheme()).toBeNull();
+    GameStorage.saveTheme({name: Themes.MIDNIGHT.name, fourColorSuits: true});
+    expect(GameStorage.loadTheme()).toEqual({name: "Midnight", fourColorSuits: true});
+  });
+});
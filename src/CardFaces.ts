@@ -0,0 +1,240 @@
+import {Theme} from "./Theme";
+import {Suit} from "./Suit";
+
+/**
+ * Represents the way the faces and backs of the cards of the visual view are drawn: the rank and a
+ * small pip in two corners, a large pip in the middle or the art of a court card, in the colours of
+ * a theme.
+ * <p>The pips and the court art are symbols of the SVG sprite set {@link SPRITE_URL}, which is
+ * fetched once and shared by every deck. Until it has loaded, and if it cannot be loaded, the
+ * suits and ranks are written as text instead, and the given callback is called whenever more of
+ * the sprite set has become ready to be drawn.</p>
+ */
+export class CardFaces {
+    static readonly SPRITE_URL = (process.env.PUBLIC_URL || "") + "/cards.svg";
+    // the colours of diamonds and clubs when every suit has its own colour
+    static readonly FOUR_COLOR_DIAMOND = "#1f5fd1";
+    static readonly FOUR_COLOR_CLUB = "#138a36";
+    static readonly COURT_SYMBOLS = new Map<string, string>([["J", "jack"], ["Q", "queen"], ["K", "king"]]);
+    static readonly SUIT_SYMBOLS = new Map<string, string>([[Suit.HEART, "heart"], [Suit.DIAMOND, "diamond"],
+        [Suit.CLUB, "club"], [Suit.SPADE, "spade"]]);
+    // the markup of every symbol of the sprite set by its id, once it has been fetched
+    private static symbols: Promise<Map<string, string>> = null;
+    private theme: Theme;
+    private fourColorSuits: boolean;
+    // the images of the symbols drawn in each colour, by the symbol and the colour
+    private readonly images: Map<string, HTMLImageElement>;
+    private readonly onLoad: () => void;
+    private loaded: Map<string, string>;
+
+    /**
+     * Creates a CardFaces object drawing cards in the given theme.
+     * @param theme the colours the cards are drawn in
+     * @param fourColorSuits whether each suit has its own colour
+     * @param onLoad called whenever more of the sprite set is ready to be drawn
+     */
+    constructor(theme: Theme, fourColorSuits: boolean, onLoad: () => void) {
+        this.theme = theme;
+        this.fourColorSuits = fourColorSuits;
+        this.images = new Map<string, HTMLImageElement>();
+        this.onLoad = onLoad;
+        this.loaded = null;
+        CardFaces.loadSymbols().then((symbols) => {
+            this.loaded = symbols;
+            this.onLoad();
+        });
+    }
+
+    /**
+     * Changes the colours the cards are drawn in.
+     * @param theme the colours the cards are drawn in
+     * @param fourColorSuits whether each suit has its own colour
+     */
+    setTheme(theme: Theme, fourColorSuits: boolean): void {
+        this.theme = theme;
+        this.fourColorSuits = fourColorSuits;
+    }
+
+    getTheme(): Theme {
+        return this.theme;
+    }
+
+    /**
+     * Returns the colour the suit of the card with the given label is drawn in.
+     * @param label the label of the card, its rank followed by its suit
+     * @return the colour of its suit
+     */
+    suitColor(label: string): string {
+        const suit: string = label.substring(label.length - 1);
+        if (this.fourColorSuits && suit === Suit.DIAMOND) {
+            return CardFaces.FOUR_COLOR_DIAMOND;
+        } else if (this.fourColorSuits && suit === Suit.CLUB) {
+            return CardFaces.FOUR_COLOR_CLUB;
+        } else if (suit === Suit.HEART || suit === Suit.DIAMOND) {
+            return this.theme.redSuit;
+        }
+        return this.theme.blackSuit;
+    }
+
+    /**
+     * Draws the face of the card with the given label, without its background or its edge, with
+     * its top left corner at the given position.
+     * @param context the graphics to be rendered with
+     * @param label the label of the card, its rank followed by its suit
+     * @param x the x position of the card
+     * @param y the y position of the card
+     * @param width the width of the card
+     * @param height the height of the card
+     */
+    drawFace(context: CanvasRenderingContext2D, label: string, x: number, y: number,
+             width: number, height: number): void {
+        const rank: string = label.substring(0, label.length - 1);
+        const suit: string = label.substring(label.length - 1);
+        const color: string = this.suitColor(label);
+        this.drawCorner(context, rank, suit, color, x, y);
+        // the bottom right corner is the top left corner turned upside down
+        context.save();
+        context.translate(x + width, y + height);
+        context.rotate(Math.PI);
+        this.drawCorner(context, rank, suit, color, 0, 0);
+        context.restore();
+
+        const court: string = CardFaces.COURT_SYMBOLS.get(rank);
+        const size: number = court != null ? 30 : 26;
+        const symbol: string = court != null ? court : CardFaces.SUIT_SYMBOLS.get(suit);
+        this.drawSymbol(context, symbol, court != null ? rank : suit, color,
+            x + (width - size) / 2, y + (height - size) / 2, size);
+    }
+
+    /**
+     * Draws the back of a card with its top left corner at the given position.
+     * @param context the graphics to be rendered with
+     * @param x the x position of the card
+     * @param y the y position of the card
+     * @param width the width of the card
+     * @param height the height of the card
+     */
+    drawBack(context: CanvasRenderingContext2D, x: number, y: number, width: number, height: number): void {
+        context.fillStyle = this.theme.cardBack;
+        context.fillRect(x, y, width, height);
+        context.strokeStyle = this.theme.cardEdge;
+        context.strokeRect(x, y, width, height);
+        // a lattice of diagonal lines within a border
+        context.save();
+        context.beginPath();
+        context.rect(x + 5, y + 5, width - 10, height - 10);
+        context.clip();
+        context.strokeStyle = this.theme.cardBackAccent;
+        context.beginPath();
+        for (let offset = -height; offset < width; offset += 10) {
+            context.moveTo(x + offset, y);
+            context.lineTo(x + offset + height, y + height);
+            context.moveTo(x + offset + height, y);
+            context.lineTo(x + offset, y + height);
+        }
+        context.stroke();
+        context.restore();
+        context.strokeStyle = this.theme.cardBackAccent;
+        context.strokeRect(x + 5, y + 5, width - 10, height - 10);
+        context.strokeStyle = "#000000";
+    }
+
+    /**
+     * Draws the rank and a small pip of a card at the given position, which is the top left corner
+     * of the card.
+     * @param context the graphics to be rendered with
+     * @param rank the rank of the card
+     * @param suit the suit of the card
+     * @param color the colour of the suit of the card
+     * @param x the x position of the corner
+     * @param y the y position of the corner
+     */
+    private drawCorner(context: CanvasRenderingContext2D, rank: string, suit: string, color: string,
+                       x: number, y: number): void {
+        context.fillStyle = color;
+        context.font = "bold 13px Verdana";
+        context.textAlign = "left";
+        context.textBaseline = "top";
+        context.fillText(rank, x + 3, y + 3);
+        this.drawSymbol(context, CardFaces.SUIT_SYMBOLS.get(suit), suit, color, x + 4, y + 18, 10);
+        context.textBaseline = "alphabetic";
+    }
+
+    /**
+     * Draws the given symbol of the sprite set in the given colour, filling a square of the given
+     * size, or writes the given text in its place if the symbol cannot be drawn yet.
+     * @param context the graphics to be rendered with
+     * @param symbol the id of the symbol, or undefined if there is none
+     * @param fallback the text written if the symbol cannot be drawn
+     * @param color the colour of the symbol
+     * @param x the x position of the square
+     * @param y the y position of the square
+     * @param size the size of the square
+     */
+    private drawSymbol(context: CanvasRenderingContext2D, symbol: string, fallback: string, color: string,
+                       x: number, y: number, size: number): void {
+        const image: HTMLImageElement = this.image(symbol, color);
+        if (image != null && image.complete && image.naturalWidth > 0) {
+            context.drawImage(image, x, y, size, size);
+            return;
+        }
+        const baseline: CanvasTextBaseline = context.textBaseline;
+        context.fillStyle = color;
+        context.font = size + "px Verdana";
+        context.textAlign = "center";
+        context.textBaseline = "middle";
+        context.fillText(fallback, x + size / 2, y + size / 2);
+        context.textAlign = "left";
+        context.textBaseline = baseline;
+    }
+
+    /**
+     * Returns the image of the given symbol in the given colour, creating it the first time it is
+     * asked for, or null if the symbol has not been loaded.
+     * @param symbol the id of the symbol
+     * @param color the colour of the symbol
+     * @return the image of the symbol, which may still be loading, or null
+     */
+    private image(symbol: string, color: string): HTMLImageElement {
+        if (this.loaded == null || symbol == null || !this.loaded.has(symbol)) {
+            return null;
+        }
+        const key: string = symbol + color;
+        if (!this.images.has(key)) {
+            const image: HTMLImageElement = new Image();
+            image.onload = this.onLoad;
+            image.src = "data:image/svg+xml;charset=utf-8," + encodeURIComponent(
+                "<svg xmlns=\"http://www.w3.org/2000/svg\" viewBox=\"0 0 100 100\" fill=\"" + color + "\">"
+                + this.loaded.get(symbol) + "</svg>");
+            this.images.set(key, image);
+        }
+        return this.images.get(key);
+    }
+
+    /**
+     * Fetches the sprite set, unless it already has been, and returns the markup of each of its
+     * symbols by id. If the sprite set cannot be fetched there are no symbols.
+     * @return the markup of the symbols of the sprite set
+     */
+    private static loadSymbols(): Promise<Map<string, string>> {
+        if (CardFaces.symbols == null) {
+            if (typeof fetch === "undefined" || typeof DOMParser === "undefined") {
+                CardFaces.symbols = Promise.resolve(new Map<string, string>());
+            } else {
+                CardFaces.symbols = fetch(CardFaces.SPRITE_URL).then(function (response) {
+                    return response.text();
+                }).then(function (text) {
+                    const result: Map<string, string> = new Map<string, string>();
+                    const document: Document = new DOMParser().parseFromString(text, "image/svg+xml");
+                    document.querySelectorAll("symbol").forEach(function (symbol) {
+                        result.set(symbol.id, symbol.innerHTML);
+                    });
+                    return result;
+                }).catch(function () {
+                    return new Map<string, string>();
+                });
+            }
+        }
+        return CardFaces.symbols;
+    }
+}
@@ -0,0 +1,10 @@
+/**
+ * Represents the position of a card in a game of pyramid solitaire, either in the pyramid or in the
+ * draw pile. Rows and cards are numbered from 0 as they are by the model.
+ */
+export interface CardPosition {
+    // the row of the card in the pyramid, or -1 for a draw card
+    readonly row: number;
+    // the index of the card in its row, or in the draw pile for a draw card
+    readonly card: number;
+}
@@ -0,0 +1,12 @@
+/**
+ * Represents the make-up of the deck a game of pyramid solitaire is played with: every suit has
+ * one card of each of the given values, and the whole set of cards is repeated the given number of
+ * times. A standard deck has the values 1 to 13 once, a stripped deck leaves some values out and a
+ * double deck has two copies.
+ */
+export interface DeckSpec {
+    // the values of the cards of each suit, all positive whole numbers
+    readonly values: Array<number>;
+    // the number of copies of every card in the deck
+    readonly copies: number;
+}
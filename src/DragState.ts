@@ -0,0 +1,15 @@
+/**
+ * Represents the state of the mouse in the visual view as one of the following, based on whether a
+ * card has been pressed and whether it has been moved far enough to be dragged. Represented as one
+ * of:
+ * <ul>
+ *   <li>IDLE</li>
+ *   <li>PRESSED</li>
+ *   <li>DRAGGING</li>
+ * </ul>
+ */
+export enum DragState {
+    IDLE = "Idle",
+    PRESSED = "Pressed",
+    DRAGGING = "Dragging"
+}
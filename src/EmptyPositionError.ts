@@ -0,0 +1,19 @@
+import {PyramidSolitaireError} from "./PyramidSolitaireError";
+import {ErrorCode} from "./ErrorCode";
+import {CardPosition} from "./CardPosition";
+
+/**
+ * Represents the error of using a card where there is none, because it has already been removed or
+ * discarded.
+ */
+export class EmptyPositionError extends PyramidSolitaireError {
+
+    /**
+     * Creates an EmptyPositionError object.
+     * @param message   the message of the error
+     * @param positions the positions with no card
+     */
+    constructor(message: string, positions: Array<CardPosition>) {
+        super(ErrorCode.EMPTY_POSITION, message, positions);
+    }
+}
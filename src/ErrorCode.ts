@@ -0,0 +1,20 @@
+/**
+ * Represents the reason a move or a query of a game of pyramid solitaire was refused, which stays
+ * the same whatever the wording of the message of the error. Represented as one of:
+ * <ul>
+ *   <li>CARD_COVERED, a card of the pyramid is covered by the cards below it</li>
+ *   <li>WRONG_SUM, the cards do not add up to the removal value</li>
+ *   <li>SAME_CARD, a card is paired with itself</li>
+ *   <li>EMPTY_POSITION, there is no card where one was expected</li>
+ *   <li>OUT_OF_BOUNDS, a position is outside of the pyramid or the draw pile</li>
+ *   <li>GAME_NOT_STARTED, the game has not been started yet</li>
+ * </ul>
+ */
+export enum ErrorCode {
+    CARD_COVERED = "cardCovered",
+    WRONG_SUM = "wrongSum",
+    SAME_CARD = "sameCard",
+    EMPTY_POSITION = "emptyPosition",
+    OUT_OF_BOUNDS = "outOfBounds",
+    GAME_NOT_STARTED = "gameNotStarted"
+}
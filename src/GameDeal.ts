@@ -0,0 +1,22 @@
+import {Card} from "./Card";
+import {DeckSpec} from "./DeckSpec";
+import {GameOptions} from "./GameOptions";
+
+/**
+ * Represents everything needed to deal a game of pyramid solitaire again exactly as it was dealt
+ * before: the kind of game and its deck, and what the game was started with. A shuffled deal is
+ * dealt again from the number of the deal, and a deal which was not shuffled from the order its
+ * cards were dealt in.
+ */
+export interface GameDeal {
+    // the kind of game and the make-up of its deck
+    readonly gameType: string;
+    readonly deckSpec: DeckSpec;
+    // the deck, whether it is shuffled, and the size of the pyramid and the draw pile
+    readonly deck: Array<Card>;
+    readonly shuffle: boolean;
+    readonly numRows: number;
+    readonly numDraw: number;
+    // the settings of the game, the seed being the number of the deal if the deck is shuffled
+    readonly options: GameOptions;
+}
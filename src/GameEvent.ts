@@ -0,0 +1,112 @@
+import {GameEventType} from "./GameEventType";
+import {Card} from "./Card";
+import {Move} from "./Move";
+import {DeckSpec} from "./DeckSpec";
+
+/**
+ * Represents the dealing of a new game, or the loading of a saved one, with everything the player
+ * can see of it. The lists are copies which are not changed by the game.
+ */
+export interface GameStartedEvent {
+    readonly type: GameEventType.GAME_STARTED;
+    readonly pyramid: Array<Array<Card>>;
+    readonly draws: Array<Card>;
+    readonly stockSize: number;
+    readonly wasteSize: number;
+    readonly redealsLeft: number;
+    readonly dealNumber: number;
+    readonly score: number;
+    readonly removalValue: number;
+    readonly deckSpec: DeckSpec;
+    // whether the game was loaded from a saved game rather than dealt
+    readonly resumed: boolean;
+}
+
+/**
+ * Represents the removal of cards by a move, with the cards which were removed in the order the
+ * move names them.
+ */
+export interface CardsRemovedEvent {
+    readonly type: GameEventType.CARDS_REMOVED;
+    readonly move: Move;
+    readonly cards: Array<Card>;
+}
+
+/**
+ * Represents the discarding of a draw card to the waste.
+ */
+export interface DrawDiscardedEvent {
+    readonly type: GameEventType.DRAW_DISCARDED;
+    readonly drawIndex: number;
+    readonly card: Card;
+    readonly wasteSize: number;
+}
+
+/**
+ * Represents the replacing of a draw card which was used or discarded with the next card of the
+ * stock, or with null if there was none.
+ */
+export interface DrawReplenishedEvent {
+    readonly type: GameEventType.DRAW_REPLENISHED;
+    readonly drawIndex: number;
+    readonly card: Card;
+    readonly stockSize: number;
+    readonly wasteSize: number;
+    readonly redealsLeft: number;
+    // whether the waste was turned over to become the stock first
+    readonly redealt: boolean;
+}
+
+/**
+ * Represents the drawing of the last card of the stock.
+ */
+export interface StockExhaustedEvent {
+    readonly type: GameEventType.STOCK_EXHAUSTED;
+    readonly wasteSize: number;
+    readonly redealsLeft: number;
+}
+
+/**
+ * Represents a change in the score of the game.
+ */
+export interface ScoreChangedEvent {
+    readonly type: GameEventType.SCORE_CHANGED;
+    readonly score: number;
+    readonly previousScore: number;
+}
+
+/**
+ * Represents the end of the game, after the move which left no moves to be made.
+ */
+export interface GameOverEvent {
+    readonly type: GameEventType.GAME_OVER;
+    readonly won: boolean;
+    readonly score: number;
+}
+
+/**
+ * Represents the return of the game to an earlier or later state by an undo or a redo, with
+ * everything the player can see of it. The lists are copies which are not changed by the game.
+ */
+export interface StateRestoredEvent {
+    readonly type: GameEventType.STATE_RESTORED;
+    readonly pyramid: Array<Array<Card>>;
+    readonly draws: Array<Card>;
+    readonly stockSize: number;
+    readonly wasteSize: number;
+    readonly redealsLeft: number;
+    readonly score: number;
+}
+
+/**
+ * Represents something which has happened in a game of pyramid solitaire, told to the subscribers
+ * of the game once the game has finished changing.
+ */
+export type GameEvent = GameStartedEvent | CardsRemovedEvent | DrawDiscardedEvent
+    | DrawReplenishedEvent | StockExhaustedEvent | ScoreChangedEvent | GameOverEvent
+    | StateRestoredEvent;
+
+/**
+ * Represents a subscriber to the events of a game of pyramid solitaire.
+ */
+export type GameEventListener = (event: GameEvent) => void;
@@ -0,0 +1,24 @@
+/**
+ * Represents the kinds of events a game of pyramid solitaire tells its subscribers about.
+ * Represented as one of:
+ * <ul>
+ *   <li>GAME_STARTED</li>
+ *   <li>CARDS_REMOVED</li>
+ *   <li>DRAW_DISCARDED</li>
+ *   <li>DRAW_REPLENISHED</li>
+ *   <li>STOCK_EXHAUSTED</li>
+ *   <li>SCORE_CHANGED</li>
+ *   <li>GAME_OVER</li>
+ *   <li>STATE_RESTORED</li>
+ * </ul>
+ */
+export enum GameEventType {
+    GAME_STARTED = "gameStarted",
+    CARDS_REMOVED = "cardsRemoved",
+    DRAW_DISCARDED = "drawDiscarded",
+    DRAW_REPLENISHED = "drawReplenished",
+    STOCK_EXHAUSTED = "stockExhausted",
+    SCORE_CHANGED = "scoreChanged",
+    GAME_OVER = "gameOver",
+    STATE_RESTORED = "stateRestored"
+}
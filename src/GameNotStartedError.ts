@@ -0,0 +1,16 @@
+import {PyramidSolitaireError} from "./PyramidSolitaireError";
+import {ErrorCode} from "./ErrorCode";
+
+/**
+ * Represents the error of playing or asking about a game which has not been started yet. No cards
+ * are involved.
+ */
+export class GameNotStartedError extends PyramidSolitaireError {
+
+    /**
+     * Creates a GameNotStartedError object.
+     */
+    constructor() {
+        super(ErrorCode.GAME_NOT_STARTED, "The game has not yet started.", []);
+    }
+}
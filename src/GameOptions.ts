@@ -0,0 +1,29 @@
+import {ScoringType} from "./ScoringType";
+
+/**
+ * Represents the optional settings a game of pyramid solitaire can be started with.
+ */
+export interface GameOptions {
+    /**
+     * The seed used to shuffle the deck, which is also the number of the deal. Starting two games
+     * with the same deck and seed always deals the cards in the same order. Ignored if the deck is
+     * not shuffled, and chosen at random if it is shuffled without a seed.
+     */
+    seed?: number;
+
+    /**
+     * The number of times the waste, where discarded draw cards go, may be turned over to become
+     * the new stock once the stock runs out. The waste is never used again if this is not given.
+     */
+    redeals?: number;
+
+    /**
+     * The value which a single card or a pair of cards must have to be removed, 13 if not given.
+     */
+    removalValue?: number;
+
+    /**
+     * The way the game is scored, by the sum of the cards left in the pyramid if not given.
+     */
+    scoring?: ScoringType;
+}
@@ -0,0 +1,39 @@
+import {Move} from "./Move";
+import {SavedCard} from "./SavedGame";
+import {DeckSpec} from "./DeckSpec";
+
+/**
+ * Represents a move of a recorded game, with the time at which it was made.
+ */
+export interface RecordedMove {
+    readonly move: Move;
+    // the time the move was made, in milliseconds since 1970 as given by Date.now()
+    readonly time: number;
+}
+
+/**
+ * Represents the recording of a game of pyramid solitaire: the order in which the deck was dealt
+ * and every move made since, so that the game can be replayed by dealing the deck unshuffled and
+ * making the same moves. A recording is plain JSON so that it can be stored and shared.
+ */
+export interface GameRecording {
+    // the kind of game recorded
+    readonly gameType: string;
+    // the deck in the order it was dealt, pyramid first, then the draw cards, then the stock
+    readonly deck: Array<SavedCard>;
+    readonly numRows: number;
+    readonly numDraw: number;
+    // the number of times the waste could be turned over to become the stock
+    readonly redeals: number;
+    // the value which cards had to add up to in order to be removed
+    readonly removalValue: number;
+    // the make-up of the deck
+    readonly deckSpec: DeckSpec;
+    // the way the game was scored, which recordings made before scoring was chosen do not have
+    readonly scoring: string;
+    // the number of the deal, or -1 if the deck was not shuffled
+    readonly dealNumber: number;
+    // the time the game was dealt, in milliseconds since 1970
+    readonly startTime: number;
+    readonly moves: Array<RecordedMove>;
+}
@@ -0,0 +1,103 @@
+import {BasicPyramidSolitaire} from "./BasicPyramidSolitaire";
+import {Card} from "./Card";
+import {Suit} from "./Suit";
+import {GameSession} from "./GameSession";
+import {GameRecording} from "./GameRecording";
+import {createView, ignoringContext} from "./testUtils";
+
+// row 0: A♥, row 1: K♥ Q♥, draws: A♠ 2♥, so that removing the K♥ is a safe move
+function dealWithExposedKing(session: GameSession): void {
+  const first: Array<Card> = [new Card(Suit.HEART, 1), new Card(Suit.HEART, 13),
+    new Card(Suit.HEART, 12), new Card(Suit.SPADE, 1), new Card(Suit.HEART, 2)];
+  session.start(first.concat(session.getModel().getDeck().filter(card => !first.some(other => other.equals(card)))),
+    false, 2, 2);
+}
+
+describe('GameSession', () => {
+  beforeEach(() => {
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => ignoringContext());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+    document.body.innerHTML = "";
+  });
+
+  test('removes every listener its view added to the page when it is disposed of', () => {
+    // the window has listeners of its own, apart from those of the document and the elements
+    const added: Array<jest.SpyInstance> = [jest.spyOn(EventTarget.prototype, 'addEventListener'),
+      jest.spyOn(window, 'addEventListener')];
+    const removed: Array<jest.SpyInstance> = [jest.spyOn(EventTarget.prototype, 'removeEventListener'),
+      jest.spyOn(window, 'removeEventListener')];
+    const listenersOf = (spies: Array<jest.SpyInstance>) => spies.flatMap(spy => spy.mock.calls.map(
+      (call, index) => [spy.mock.instances[index], call[0], call[1]]));
+    const session: GameSession = new GameSession(new BasicPyramidSolitaire(), createView(), false);
+    dealWithExposedKing(session);
+    const listeners = listenersOf(added);
+    expect(listeners.map(listener => listener[1])).toEqual(expect.arrayContaining(
+      ["mousedown", "mousemove", "mouseup", "keydown", "resize", "click"]));
+    expect(listenersOf(removed)).toEqual([]);
+
+    session.dispose();
+    expect(listenersOf(removed)).toHaveLength(listeners.length);
+    expect(listenersOf(removed)).toEqual(expect.arrayContaining(listeners));
+  });
+
+  test('cancels the animation frame it was waiting for when it is disposed of', () => {
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation(() => 42);
+    const cancelled: jest.SpyInstance = jest.spyOn(window, 'cancelAnimationFrame');
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    const session: GameSession = new GameSession(model, createView(), false);
+    dealWithExposedKing(session);
+    // the discarded draw card flies off while the next one slides in
+    model.discardDraw(0);
+
+    session.dispose();
+    expect(cancelled).toHaveBeenCalledWith(42);
+    expect(() => session.start(model.getDeck(), false, 2, 2)).toThrow(/disposed/);
+  });
+
+  test('cancels the moves it was waiting to play for the player when it is disposed of', () => {
+    jest.useFakeTimers();
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    const session: GameSession = new GameSession(model, createView(), false);
+    // the K♥ is waiting to be removed for the player
+    session.getController().setAutoPlay(true);
+    dealWithExposedKing(session);
+
+    session.dispose();
+    jest.runOnlyPendingTimers();
+    expect(model.getCardAt(1, 0)).not.toBeNull();
+    expect(model.getRecording().moves).toEqual([]);
+  });
+
+  test('deals the same shuffle again when its deal is restarted', () => {
+    const first: GameSession = new GameSession(new BasicPyramidSolitaire(), createView(), false);
+    first.start(first.getModel().getDeck(), true, 7, 3);
+    first.getModel().discardDraw(0);
+    first.dispose();
+
+    const second: GameSession = new GameSession(new BasicPyramidSolitaire(), createView(), false);
+    second.restart(first.getDeal());
+    expect(second.getModel().getDealNumber()).toBe(first.getModel().getDealNumber());
+    expect(second.getModel().getRecording().deck).toEqual(first.getModel().getRecording().deck);
+    expect(second.getModel().getRecording().moves).toEqual([]);
+    expect(second.getDeal()).toEqual(first.getDeal());
+    second.dispose();
+  });
+
+  test('resumes a saved game whose recording cannot be read, without being able to restart it', () => {
+    const first: GameSession = new GameSession(new BasicPyramidSolitaire(), createView(), false);
+    dealWithExposedKing(first);
+    first.getModel().remove(1, 0);
+    const recording: GameRecording = first.getModel().getRecording();
+    first.dispose();
+
+    const second: GameSession = new GameSession(new BasicPyramidSolitaire(), createView(), false);
+    second.resume(first.getModel().toJSON(), {...recording, deck: [{suit: "Stars", value: 1}]});
+    expect(second.getModel().getCardAt(1, 0)).toBeNull();
+    expect(second.canRestart()).toBe(false);
+    second.dispose();
+  });
+});
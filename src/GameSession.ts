@@ -0,0 +1,166 @@
+import {AbstractPyramidSolitaire} from "./AbstractPyramidSolitaire";
+import {PyramidSolitaireVisualView} from "./PyramidSolitaireVisualView";
+import {PyramidSolitaireVisualController} from "./PyramidSolitaireVisualController";
+import {Card} from "./Card";
+import {GameOptions} from "./GameOptions";
+import {GameDeal} from "./GameDeal";
+import {SavedGame} from "./SavedGame";
+import {GameRecording} from "./GameRecording";
+import {ScoringType} from "./ScoringType";
+
+/**
+ * Represents one game of pyramid solitaire being played on the page, owning its model, its view and
+ * the controller joining them. A session is started once, either with a new deal or from a saved
+ * game, and disposed of before the next game takes over the canvas and the buttons, so that only
+ * one game ever responds to the player. The session remembers its deal so that the same game can
+ * be dealt again from the start.
+ */
+export class GameSession {
+    private readonly model: AbstractPyramidSolitaire;
+    private readonly view: PyramidSolitaireVisualView;
+    private readonly controller: PyramidSolitaireVisualController;
+    // the deal of the game, or null if it is not known or the game has not been started
+    private deal: GameDeal;
+    // whether the game has been started, and whether this session has been disposed of
+    private started: boolean;
+    private disposed: boolean;
+
+    /**
+     * Creates a GameSession object playing the given model in the given view.
+     * @param model    the model of the game, which has not been started
+     * @param view     the view the game is shown in, which belongs to this session from now on
+     * @param autoSave whether the game and its recording are saved after every move
+     */
+    constructor(model: AbstractPyramidSolitaire, view: PyramidSolitaireVisualView, autoSave: boolean = true) {
+        this.model = model;
+        this.view = view;
+        this.controller = new PyramidSolitaireVisualController(view, model, autoSave);
+        this.deal = null;
+        this.started = false;
+        this.disposed = false;
+    }
+
+    /**
+     * Deals a new game with the given deck and pyramid attributes.
+     * @param deck    the deck to be used in the game
+     * @param shuffle whether or not the deck should be shuffled before it is dealt
+     * @param numRows the number of rows in the pyramid
+     * @param numDraw the number of draw cards
+     * @param options the optional settings of the game, such as the seed of the shuffle
+     * @throws Error if this session has already been started or disposed of, or the game cannot
+     * be dealt
+     */
+    start(deck: Array<Card>, shuffle: boolean, numRows: number, numDraw: number, options: GameOptions = {}): void {
+        this.checkNotStarted();
+        this.controller.playGame(deck, shuffle, numRows, numDraw, options);
+        // the deal is remembered by its number, which was chosen at random if no seed was given
+        this.deal = {gameType: this.model.getGameType(), deckSpec: this.model.getDeckSpec(),
+            deck: deck.slice(), shuffle: shuffle, numRows: numRows, numDraw: numDraw,
+            options: {...options, seed: shuffle ? this.model.getDealNumber() : undefined}};
+    }
+
+    /**
+     * Deals the given deal again from the start.
+     * @param deal the deal to be played
+     * @throws Error if this session has already been started or disposed of, or the game cannot
+     * be dealt
+     */
+    restart(deal: GameDeal): void {
+        this.start(deal.deck, deal.shuffle, deal.numRows, deal.numDraw, deal.options);
+    }
+
+    /**
+     * Resumes the given saved game. The saved game does not say how it was dealt, so it can only be
+     * dealt again from the start if the given recording is the recording of the same game, and its
+     * deck can be read.
+     * @param savedGame the saved game, as written by the model
+     * @param recording the saved recording, or null if there is none
+     * @throws Error if this session has already been started or disposed of, or the saved game
+     * cannot be loaded
+     */
+    resume(savedGame: SavedGame, recording: GameRecording = null): void {
+        this.checkNotStarted();
+        this.controller.resumeGame(savedGame);
+        // Checks if the recording is of the game which was resumed
+        if (recording == null || recording.gameType !== this.model.getGameType()
+            || recording.dealNumber !== this.model.getDealNumber()
+            || recording.numRows !== this.model.getNumRows() || recording.numDraw !== this.model.getNumDraw()
+            || (recording.removalValue != null && recording.removalValue !== this.model.getRemovalValue())
+            || (recording.scoring || ScoringType.PYRAMID_SUM) !== this.model.getScoringPolicy().type) {
+            return;
+        }
+        const shuffle: boolean = recording.dealNumber !== -1;
+        let deck: Array<Card>;
+        try {
+            deck = shuffle ? this.model.getDeck() : recording.deck.map(function (card) {
+                return Card.fromJSON(card);
+            });
+        } catch (e) {
+            // the game has been resumed all the same, it just cannot be dealt again
+            return;
+        }
+        // recordings made before redeals were added have none
+        this.deal = {gameType: recording.gameType, deckSpec: this.model.getDeckSpec(),
+            deck: deck,
+            shuffle: shuffle, numRows: recording.numRows, numDraw: recording.numDraw,
+            options: {seed: shuffle ? recording.dealNumber : undefined, redeals: recording.redeals || 0,
+                removalValue: this.model.getRemovalValue(), scoring: this.model.getScoringPolicy().type}};
+    }
+
+    /**
+     * Returns the deal of the game of this session, which can be dealt again from the start in a
+     * new session.
+     * @return the deal of the game, or null if it is not known
+     */
+    getDeal(): GameDeal {
+        return this.deal;
+    }
+
+    /**
+     * Returns whether the game of this session can be dealt again from the start.
+     * @return whether the deal of the game is known
+     */
+    canRestart(): boolean {
+        return this.deal != null;
+    }
+
+    getModel(): AbstractPyramidSolitaire {
+        return this.model;
+    }
+
+    getView(): PyramidSolitaireVisualView {
+        return this.view;
+    }
+
+    getController(): PyramidSolitaireVisualController {
+        return this.controller;
+    }
+
+    /**
+     * Ends this session for good: the controller stops following the model, and the view removes
+     * every listener it added to the page and cancels any animation frame it was waiting for. Does
+     * nothing if this session has already been disposed of.
+     */
+    dispose(): void {
+        if (this.disposed) {
+            return;
+        }
+        this.disposed = true;
+        this.controller.dispose();
+        this.view.dispose();
+    }
+
+    /**
+     * Checks that this session can still start its game, which it cannot do again afterwards.
+     * @throws Error if this session has already been started or disposed of
+     */
+    private checkNotStarted(): void {
+        if (this.disposed) {
+            throw new Error("The session has been disposed of.");
+        }
+        if (this.started) {
+            throw new Error("The session has already been started.");
+        }
+        this.started = true;
+    }
+}
@@ -0,0 +1,22 @@
+/**
+ * Represents the configuration new games are dealt with, as the player chooses it before a deal
+ * and as it is remembered between sessions.
+ */
+export interface GameSetup {
+    // the kind of game
+    readonly gameType: string;
+    readonly numRows: number;
+    readonly numDraw: number;
+    // whether the deck is shuffled, and the number of the deal to be played, or null for a random
+    // deal, which is ignored if the deck is not shuffled
+    readonly shuffle: boolean;
+    readonly seed: number;
+    // the number of times the waste can be turned over to become the stock
+    readonly redeals: number;
+    // the name of the deck, as the player chooses it
+    readonly deckName: string;
+    // the value cards must sum to in order to be removed
+    readonly removalValue: number;
+    // the way the game is scored
+    readonly scoring: string;
+}
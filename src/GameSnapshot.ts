@@ -0,0 +1,14 @@
+import {Card} from "./Card";
+
+/**
+ * Represents a copy of the changeable state of a game of pyramid solitaire at a single point in
+ * time, used to move backwards and forwards through the moves of a game. The lists held by a
+ * snapshot are never shared with the game they were taken from.
+ */
+export interface GameSnapshot {
+    readonly pyramid: Array<Array<Card>>;
+    readonly draws: Array<Card>;
+    readonly stock: Array<Card>;
+    readonly waste: Array<Card>;
+    readonly redealsLeft: number;
+}
@@ -0,0 +1,36 @@
+/**
+ * Represents the statistics of the games finished with one configuration, or with every
+ * configuration together. The best score is the lowest or the highest, depending on the scoring of
+ * the configuration. Games scored in different ways have scores which cannot be compared, so the
+ * statistics of every configuration together have no scores.
+ */
+export interface ConfigurationStatistics {
+    // the kind of game, the number of rows of its pyramid, its number of draw cards and the way it
+    // is scored, which are null for the statistics of every configuration together
+    readonly gameType: string;
+    readonly numRows: number;
+    readonly numDraw: number;
+    readonly scoring: string;
+    played: number;
+    won: number;
+    // the best score, or null if no game has been scored, and the sum of the scores of every game
+    bestScore: number;
+    totalScore: number;
+    // the number of games won in a row up to the last game, and the most ever won in a row
+    currentStreak: number;
+    longestStreak: number;
+    // the number of games which ended with each score
+    scores: { [score: string]: number };
+}
+
+/**
+ * Represents the JSON format in which the statistics of the player are saved. The version is
+ * increased whenever the format changes, and older versions can still be loaded. Version 1 had no
+ * scoring, every game being scored by the sum of its pyramid.
+ */
+export interface GameStatistics {
+    readonly version: number;
+    readonly total: ConfigurationStatistics;
+    // the statistics of each configuration, by the key of the configuration
+    readonly configurations: { [key: string]: ConfigurationStatistics };
+}
@@ -0,0 +1,199 @@
+import {AbstractPyramidSolitaire} from "./AbstractPyramidSolitaire";
+import {SavedGame} from "./SavedGame";
+import {GameRecording} from "./GameRecording";
+import {ThemeSettings} from "./Theme";
+import {PlayerStatistics} from "./PlayerStatistics";
+import {GameSetup} from "./GameSetup";
+
+/**
+ * Represents the saving of the game in progress and its recording to the browser's local storage,
+ * so that it can be resumed or replayed after the page is reloaded. Storage may be unavailable or full, in which case games are
+ * simply not saved.
+ */
+export class GameStorage {
+    static readonly KEY: string = "pyramidSolitaire.savedGame";
+    static readonly RECORDING_KEY: string = "pyramidSolitaire.recording";
+    static readonly THEME_KEY: string = "pyramidSolitaire.theme";
+    static readonly STATISTICS_KEY: string = "pyramidSolitaire.statistics";
+    static readonly SETUP_KEY: string = "pyramidSolitaire.setup";
+
+    /**
+     * Saves the given game, replacing any game saved before.
+     *
+     * @param model the game to be saved
+     * @return whether the game was saved
+     */
+    static save(model: AbstractPyramidSolitaire): boolean {
+        try {
+            window.localStorage.setItem(GameStorage.KEY, JSON.stringify(model.toJSON()));
+            return true;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    /**
+     * Returns the saved game, or null if there is none or it cannot be read. The saved game still
+     * has to be checked by the model it is loaded into.
+     *
+     * @return the saved game, or null
+     */
+    static load(): SavedGame {
+        try {
+            const saved: string = window.localStorage.getItem(GameStorage.KEY);
+            return saved == null ? null : JSON.parse(saved);
+        } catch (e) {
+            return null;
+        }
+    }
+
+    /**
+     * Removes the saved game, if there is one.
+     *
+     * @return whether there is no longer a saved game
+     */
+    static clear(): boolean {
+        try {
+            window.localStorage.removeItem(GameStorage.KEY);
+            return true;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    /**
+     * Saves the given recording, replacing any recording saved before. Does nothing if there is no
+     * recording.
+     *
+     * @param recording the recording to be saved, or null
+     * @return whether the recording was saved
+     */
+    static saveRecording(recording: GameRecording): boolean {
+        if (recording == null) {
+            return false;
+        }
+        try {
+            window.localStorage.setItem(GameStorage.RECORDING_KEY, JSON.stringify(recording));
+            return true;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    /**
+     * Returns the saved recording, or null if there is none or it cannot be read.
+     *
+     * @return the saved recording, or null
+     */
+    static loadRecording(): GameRecording {
+        try {
+            const saved: string = window.localStorage.getItem(GameStorage.RECORDING_KEY);
+            return saved == null ? null : JSON.parse(saved);
+        } catch (e) {
+            return null;
+        }
+    }
+
+    /**
+     * Saves the given choice of theme, replacing any choice saved before.
+     *
+     * @param settings the choice of theme to be saved
+     * @return whether the choice of theme was saved
+     */
+    static saveTheme(settings: ThemeSettings): boolean {
+        try {
+            window.localStorage.setItem(GameStorage.THEME_KEY, JSON.stringify(settings));
+            return true;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    /**
+     * Returns the saved choice of theme, or null if there is none or it cannot be read.
+     *
+     * @return the saved choice of theme, or null
+     */
+    static loadTheme(): ThemeSettings {
+        try {
+            const saved: string = window.localStorage.getItem(GameStorage.THEME_KEY);
+            return saved == null ? null : JSON.parse(saved);
+        } catch (e) {
+            return null;
+        }
+    }
+
+    /**
+     * Saves the given statistics, replacing any statistics saved before.
+     *
+     * @param statistics the statistics to be saved
+     * @return whether the statistics were saved
+     */
+    static saveStatistics(statistics: PlayerStatistics): boolean {
+        try {
+            window.localStorage.setItem(GameStorage.STATISTICS_KEY, JSON.stringify(statistics.toJSON()));
+            return true;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    /**
+     * Returns the saved statistics, or statistics with no games played if there are none or they
+     * cannot be read.
+     *
+     * @return the saved statistics
+     */
+    static loadStatistics(): PlayerStatistics {
+        try {
+            const saved: string = window.localStorage.getItem(GameStorage.STATISTICS_KEY);
+            return PlayerStatistics.fromJSON(saved == null ? null : JSON.parse(saved));
+        } catch (e) {
+            return new PlayerStatistics();
+        }
+    }
+
+    /**
+     * Removes the saved statistics, if there are any.
+     *
+     * @return whether there are no longer any saved statistics
+     */
+    static clearStatistics(): boolean {
+        try {
+            window.localStorage.removeItem(GameStorage.STATISTICS_KEY);
+            return true;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    /**
+     * Saves the given configuration of new games, replacing any configuration saved before.
+     *
+     * @param setup the configuration to be saved
+     * @return whether the configuration was saved
+     */
+    static saveSetup(setup: GameSetup): boolean {
+        try {
+            window.localStorage.setItem(GameStorage.SETUP_KEY, JSON.stringify(setup));
+            return true;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    /**
+     * Returns the saved configuration of new games, or null if there is none or it cannot be
+     * read. The saved configuration still has to be checked before a game is dealt with it.
+     *
+     * @return the saved configuration, or null
+     */
+    static loadSetup(): GameSetup {
+        try {
+            const saved: string = window.localStorage.getItem(GameStorage.SETUP_KEY);
+            return saved == null ? null : JSON.parse(saved);
+        } catch (e) {
+            return null;
+        }
+    }
+}
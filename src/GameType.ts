@@ -0,0 +1,13 @@
+/**
+ * Represents the kinds of games of pyramid solitaire which can be played. Represented as one of:
+ * <ul>
+ *   <li>BASIC</li>
+ *   <li>RELAXED</li>
+ *   <li>MULTI</li>
+ * </ul>
+ */
+export enum GameType {
+    BASIC = "Basic",
+    RELAXED = "Relaxed",
+    MULTI = "Multi-pyramid"
+}
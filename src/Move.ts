@@ -0,0 +1,45 @@
+import {MoveType} from "./MoveType";
+
+/**
+ * Represents the removal of a single card from the pyramid.
+ */
+export interface RemoveMove {
+    readonly type: MoveType.REMOVE;
+    readonly row: number;
+    readonly card: number;
+}
+
+/**
+ * Represents the removal of a pair of cards from the pyramid.
+ */
+export interface RemoveTwoMove {
+    readonly type: MoveType.REMOVE_TWO;
+    readonly row1: number;
+    readonly card1: number;
+    readonly row2: number;
+    readonly card2: number;
+}
+
+/**
+ * Represents the removal of a card from the pyramid together with a draw card.
+ */
+export interface RemoveUsingDrawMove {
+    readonly type: MoveType.REMOVE_USING_DRAW;
+    readonly drawIndex: number;
+    readonly row: number;
+    readonly card: number;
+}
+
+/**
+ * Represents the discarding of a draw card.
+ */
+export interface DiscardDrawMove {
+    readonly type: MoveType.DISCARD_DRAW;
+    readonly drawIndex: number;
+}
+
+/**
+ * Represents a single move of a game of pyramid solitaire, with the positions of the cards it
+ * uses. Rows and cards are numbered from 0 as they are by the model.
+ */
+export type Move = RemoveMove | RemoveTwoMove | RemoveUsingDrawMove | DiscardDrawMove;
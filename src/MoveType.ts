@@ -0,0 +1,16 @@
+/**
+ * Represents the kinds of moves which can be made in a game of pyramid solitaire, one for each of
+ * the moves of the model. Represented as one of:
+ * <ul>
+ *   <li>REMOVE</li>
+ *   <li>REMOVE_TWO</li>
+ *   <li>REMOVE_USING_DRAW</li>
+ *   <li>DISCARD_DRAW</li>
+ * </ul>
+ */
+export enum MoveType {
+    REMOVE = "remove",
+    REMOVE_TWO = "removeTwo",
+    REMOVE_USING_DRAW = "removeUsingDraw",
+    DISCARD_DRAW = "discardDraw"
+}
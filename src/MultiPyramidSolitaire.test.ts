@@ -0,0 +1,75 @@
+import {MultiPyramidSolitaire} from "./MultiPyramidSolitaire";
+import {Card} from "./Card";
+import {GameRecording} from "./GameRecording";
+
+describe('MultiPyramidSolitaire', () => {
+  test('deals three overlapping pyramids with gaps between the peaks', () => {
+    const model: MultiPyramidSolitaire = new MultiPyramidSolitaire();
+    expect(model.getDeck().length).toBe(104);
+    model.startGame(model.getDeck(), false, 5, 3);
+    const pyramid: Array<Array<Card>> = model.getPyramid();
+    expect(pyramid.map(row => row.length)).toEqual([5, 6, 7, 8, 9]);
+    // the peaks are two columns apart, and meet in the third row
+    expect(pyramid[0].map(card => card != null)).toEqual([true, false, true, false, true]);
+    expect(pyramid[1].map(card => card != null)).toEqual([true, true, true, true, true, true]);
+    expect(model.isLayoutPosition(0, 1)).toBe(false);
+    expect(model.isLayoutPosition(0, 2)).toBe(true);
+    expect(model.getStockSize()).toBe(104 - 33 - 3);
+    // the first cards of the deck are dealt to the positions within the pyramids, in order
+    expect(pyramid[0][2]).toEqual(model.getDeck()[1]);
+  });
+
+  test('covers cards as a single pyramid does, but not with its gaps', () => {
+    const model: MultiPyramidSolitaire = new MultiPyramidSolitaire();
+    model.startGame(model.getDeck(), false, 5, 3);
+    expect(model.canBeSelected(0, 0)).toBe(false);
+    expect(model.canBeSelected(4, 8)).toBe(true);
+    expect(() => model.remove(0, 1)).toThrow();
+    expect(model.isGameOver()).toBe(false);
+  });
+
+  test('needs pyramids high enough for their peaks to be apart', () => {
+    const model: MultiPyramidSolitaire = new MultiPyramidSolitaire();
+    [1, 2, 3].forEach(numRows => expect(() => model.startGame(model.getDeck(), false, numRows, 3))
+      .toThrow(/at least 4 rows/));
+    model.startGame(model.getDeck(), false, 4, 3);
+    // the peaks are two columns apart
+    expect(model.getPyramid()[0].map(card => card != null)).toEqual([true, false, true, false, true]);
+
+    const saved = model.toJSON();
+    expect(() => new MultiPyramidSolitaire().fromJSON({...saved, pyramid: saved.pyramid.slice(0, 3)}))
+      .toThrow(/shape/);
+  });
+
+  test('accepts a double deck only', () => {
+    const model: MultiPyramidSolitaire = new MultiPyramidSolitaire();
+    const single: Array<Card> = model.getDeck().slice(0, 52);
+    expect(() => model.startGame(single, false, 5, 3)).toThrow();
+    expect(() => model.startGame(single.concat(single.slice(1), [single[0]]), false, 5, 3)).not.toThrow();
+    expect(() => model.startGame(single.concat(single.slice(1), [single[1]]), false, 5, 3)).toThrow();
+    expect(() => model.startGame(model.getDeck(), false, 12, 3)).toThrow();
+  });
+
+  test('saved games and recordings keep the gaps', () => {
+    const model: MultiPyramidSolitaire = new MultiPyramidSolitaire();
+    model.startGame(model.getDeck(), true, 5, 3, {seed: 77});
+    model.discardDraw(0);
+
+    const resumed: MultiPyramidSolitaire = new MultiPyramidSolitaire();
+    resumed.fromJSON(JSON.parse(JSON.stringify(model.toJSON())));
+    expect(resumed.getPyramid()).toEqual(model.getPyramid());
+    expect(resumed.getDrawCards()).toEqual(model.getDrawCards());
+    const saved = model.toJSON();
+    saved.pyramid[0][1] = saved.pyramid[0][0];
+    expect(() => resumed.fromJSON(saved)).toThrow(/shape/);
+
+    const recording: GameRecording = model.getRecording();
+    expect(recording.deck.length).toBe(104);
+    const replayed: MultiPyramidSolitaire = new MultiPyramidSolitaire();
+    replayed.startGame(recording.deck.map(card => Card.fromJSON(card)), false,
+      recording.numRows, recording.numDraw);
+    recording.moves.forEach(recorded => replayed.makeMove(recorded.move));
+    expect(replayed.getPyramid()).toEqual(model.getPyramid());
+    expect(replayed.getDrawCards()).toEqual(model.getDrawCards());
+  });
+});
@@ -0,0 +1,32 @@
+import {AbstractMultiPyramidSolitaireModel} from "./AbstractMultiPyramidSolitaireModel";
+import {GameType} from "./GameType";
+import {DeckSpec} from "./DeckSpec";
+import {AbstractPyramidSolitaire} from "./AbstractPyramidSolitaire";
+
+/**
+ * Represents the model of a game of multi-pyramid solitaire, which is played exactly like a basic
+ * game of pyramid solitaire, but with a double deck dealt into three overlapping pyramids. The game
+ * is won when the cards of all three pyramids have been removed.
+ */
+export class MultiPyramidSolitaire extends AbstractMultiPyramidSolitaireModel {
+
+    /**
+     * Constructs a {@code MultiPyramidSolitaire} object played with a deck of the given make-up.
+     *
+     * @param deckSpec the make-up of the deck, a double deck of 104 cards if not given
+     * @throws Error if the make-up of the deck is not valid
+     */
+    constructor(deckSpec: DeckSpec = AbstractPyramidSolitaire.standardDeck(2)) {
+        super(deckSpec);
+    }
+
+    getGameType(): GameType {
+        return GameType.MULTI;
+    }
+
+    copy(): MultiPyramidSolitaire {
+        let result: MultiPyramidSolitaire = new MultiPyramidSolitaire(this.getDeckSpec());
+        result.copyStateFrom(this);
+        return result;
+    }
+}
@@ -0,0 +1,19 @@
+import {PyramidSolitaireError} from "./PyramidSolitaireError";
+import {ErrorCode} from "./ErrorCode";
+import {CardPosition} from "./CardPosition";
+
+/**
+ * Represents the error of using a position outside of the pyramid or the draw pile. A row which is
+ * out of bounds is given with the index of the card as -1 if no card was asked for.
+ */
+export class OutOfBoundsError extends PyramidSolitaireError {
+
+    /**
+     * Creates an OutOfBoundsError object.
+     * @param message   the message of the error
+     * @param positions the positions out of bounds
+     */
+    constructor(message: string, positions: Array<CardPosition>) {
+        super(ErrorCode.OUT_OF_BOUNDS, message, positions);
+    }
+}
@@ -0,0 +1,26 @@
+import {ScoringPolicy, ScoringState} from "./ScoringPolicy";
+import {ScoringType} from "./ScoringType";
+
+/**
+ * Represents the scoring of a game of pyramid solitaire in which every card removed from the
+ * pyramid earns {@link POINTS_PER_CARD} points. The game is won once the pyramid is cleared.
+ */
+export class PerCardScoring implements ScoringPolicy {
+    static readonly POINTS_PER_CARD = 5;
+    readonly type = ScoringType.PER_CARD;
+    readonly lowerIsBetter = false;
+    readonly description = "Every card removed from the pyramid scores " + PerCardScoring.POINTS_PER_CARD
+        + " points. Clearing the pyramid wins the game.";
+
+    score(state: ScoringState): number {
+        return state.cardsCleared * PerCardScoring.POINTS_PER_CARD;
+    }
+
+    isWon(state: ScoringState): boolean {
+        return state.cleared;
+    }
+
+    format(score: number): string {
+        return score + " pts";
+    }
+}
@@ -0,0 +1,82 @@
+import {PlayerStatistics} from "./PlayerStatistics";
+import {ConfigurationStatistics} from "./GameStatistics";
+import {PyramidSumScoring} from "./PyramidSumScoring";
+import {VegasScoring} from "./VegasScoring";
+
+describe('PlayerStatistics', () => {
+  test('counts games together and by configuration', () => {
+    const statistics: PlayerStatistics = new PlayerStatistics();
+    statistics.recordGame("Basic", 7, 3, new PyramidSumScoring(), true, 0);
+    statistics.recordGame("Basic", 7, 3, new PyramidSumScoring(), false, 24);
+    statistics.recordGame("Relaxed", 5, 1, new PyramidSumScoring(), false, 24);
+
+    const total: ConfigurationStatistics = statistics.getTotal();
+    expect(total.played).toBe(3);
+    expect(total.won).toBe(1);
+
+    const configurations: Array<ConfigurationStatistics> = statistics.getConfigurations();
+    expect(configurations.map(c => c.gameType + c.numRows + c.numDraw)).toEqual(["Basic73", "Relaxed51"]);
+    expect(PlayerStatistics.winRate(configurations[0])).toBe(0.5);
+    expect(PlayerStatistics.winRate(configurations[1])).toBe(0);
+    expect(configurations[0].bestScore).toBe(0);
+    expect(PlayerStatistics.averageScore(configurations[0])).toBe(12);
+    expect(configurations[0].scores).toEqual({"0": 1, "24": 1});
+  });
+
+  test('keeps the scores of each way of scoring apart, and only by configuration', () => {
+    const statistics: PlayerStatistics = new PlayerStatistics();
+    statistics.recordGame("Basic", 7, 3, new PyramidSumScoring(), false, 30);
+    statistics.recordGame("Basic", 7, 3, new VegasScoring(), false, -2);
+    statistics.recordGame("Basic", 7, 3, new VegasScoring(), false, 38);
+
+    const configurations: Array<ConfigurationStatistics> = statistics.getConfigurations();
+    expect(configurations.map(c => c.scoring)).toEqual(["Pyramid sum", "Vegas"]);
+    expect(configurations[0].bestScore).toBe(30);
+    // a higher Vegas score is a better one
+    expect(configurations[1].bestScore).toBe(38);
+    expect(statistics.getTotal().played).toBe(3);
+    expect(PlayerStatistics.averageScore(statistics.getTotal())).toBeNull();
+  });
+
+  test('keeps the current and the longest win streak', () => {
+    const statistics: PlayerStatistics = new PlayerStatistics();
+    [true, true, true, false, true].forEach(won =>
+      statistics.recordGame("Basic", 7, 3, new PyramidSumScoring(), won, won ? 0 : 10));
+    expect(statistics.getTotal().currentStreak).toBe(1);
+    expect(statistics.getTotal().longestStreak).toBe(3);
+  });
+
+  test('counts games in a copy without changing the statistics it was copied from', () => {
+    const statistics: PlayerStatistics = new PlayerStatistics();
+    statistics.recordGame("Basic", 7, 3, new PyramidSumScoring(), true, 0);
+    const copy: PlayerStatistics = statistics.copy();
+    copy.recordGame("Basic", 7, 3, new PyramidSumScoring(), false, 12);
+    expect(copy.getTotal().played).toBe(2);
+    expect(copy.getConfigurations()[0].scores).toEqual({"0": 1, "12": 1});
+    expect(statistics.getTotal().played).toBe(1);
+    expect(statistics.getTotal().currentStreak).toBe(1);
+    expect(statistics.getConfigurations()[0].scores).toEqual({"0": 1});
+  });
+
+  test('is saved and loaded as JSON, ignoring anything else', () => {
+    const statistics: PlayerStatistics = new PlayerStatistics();
+    statistics.recordGame("Basic", 7, 3, new PyramidSumScoring(), true, 0);
+    const loaded: PlayerStatistics = PlayerStatistics.fromJSON(JSON.parse(JSON.stringify(statistics.toJSON())));
+    expect(loaded.toJSON()).toEqual(statistics.toJSON());
+    expect(PlayerStatistics.fromJSON({version: 99}).getTotal().played).toBe(0);
+    expect(PlayerStatistics.averageScore(new PlayerStatistics().getTotal())).toBeNull();
+  });
+
+  test('loads the first version of the format as games scored by the pyramid sum', () => {
+    const loaded: PlayerStatistics = PlayerStatistics.fromJSON({version: 1,
+      total: {gameType: null, numRows: null, numDraw: null, played: 1, won: 0, bestScore: 9, totalScore: 9,
+        currentStreak: 0, longestStreak: 0, scores: {"9": 1}},
+      configurations: {"Basic/7/3": {gameType: "Basic", numRows: 7, numDraw: 3, played: 1, won: 0, bestScore: 9,
+        totalScore: 9, currentStreak: 0, longestStreak: 0, scores: {"9": 1}}}});
+    expect(loaded.getTotal().played).toBe(1);
+    expect(loaded.getTotal().bestScore).toBeNull();
+    loaded.recordGame("Basic", 7, 3, new PyramidSumScoring(), false, 5);
+    expect(loaded.getConfigurations().length).toBe(1);
+    expect(loaded.getConfigurations()[0].bestScore).toBe(5);
+  });
+});
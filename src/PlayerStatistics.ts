@@ -0,0 +1,201 @@
+import {ConfigurationStatistics, GameStatistics} from "./GameStatistics";
+import {ScoringPolicy} from "./ScoringPolicy";
+import {ScoringType} from "./ScoringType";
+
+/**
+ * Represents the statistics of the games a player has finished, both together and broken down by
+ * the kind of game, the size of its pyramid and draw pile and the way it is scored. Games are
+ * counted once they are over, won or not.
+ */
+export class PlayerStatistics {
+    static readonly VERSION = 2;
+    private readonly total: ConfigurationStatistics;
+    private readonly configurations: { [key: string]: ConfigurationStatistics };
+
+    /**
+     * Creates a PlayerStatistics object with no games played.
+     */
+    constructor() {
+        this.total = PlayerStatistics.empty(null, null, null, null);
+        this.configurations = {};
+    }
+
+    /**
+     * Returns the statistics saved in the given JSON, or no statistics at all if it was saved in
+     * an unknown version of the format or is not statistics.
+     *
+     * @param data the saved statistics
+     * @return the statistics
+     */
+    static fromJSON(data: any): PlayerStatistics {
+        const result: PlayerStatistics = new PlayerStatistics();
+        if (data == null || data.version < 1 || data.version > PlayerStatistics.VERSION
+            || data.total == null || data.configurations == null) {
+            return result;
+        }
+        // the statistics of every game together no longer have scores, which came from the
+        // pyramid sum before version 2
+        Object.assign(result.total, data.total, {scoring: null, bestScore: null, totalScore: 0, scores: {}});
+        Object.keys(data.configurations).forEach(function (key) {
+            const statistics: ConfigurationStatistics = Object.assign({scoring: ScoringType.PYRAMID_SUM},
+                data.configurations[key]);
+            result.configurations[PlayerStatistics.keyOf(statistics.gameType, statistics.numRows,
+                statistics.numDraw, statistics.scoring)] = statistics;
+        });
+        return result;
+    }
+
+    /**
+     * Returns a copy of these statistics, which can count games without changing these ones.
+     *
+     * @return a copy of these statistics
+     */
+    copy(): PlayerStatistics {
+        const result: PlayerStatistics = new PlayerStatistics();
+        Object.assign(result.total, this.total);
+        Object.keys(this.configurations).forEach((key) => {
+            result.configurations[key] = Object.assign({}, this.configurations[key]);
+        });
+        return result;
+    }
+
+    /**
+     * Returns these statistics in the JSON format in which they are saved.
+     *
+     * @return these statistics as JSON
+     */
+    toJSON(): GameStatistics {
+        return {version: PlayerStatistics.VERSION, total: this.getTotal(), configurations: this.configurations};
+    }
+
+    /**
+     * Counts a finished game of the given configuration.
+     *
+     * @param gameType the kind of game
+     * @param numRows  the number of rows of its pyramid
+     * @param numDraw  the number of its draw cards
+     * @param scoring  the way it was scored
+     * @param won      whether the game was won
+     * @param score    the score the game ended with
+     */
+    recordGame(gameType: string, numRows: number, numDraw: number, scoring: ScoringPolicy, won: boolean,
+               score: number): void {
+        const key: string = PlayerStatistics.keyOf(gameType, numRows, numDraw, scoring.type);
+        if (this.configurations[key] == null) {
+            this.configurations[key] = PlayerStatistics.empty(gameType, numRows, numDraw, scoring.type);
+        }
+        PlayerStatistics.count(this.configurations[key], won);
+        PlayerStatistics.countScore(this.configurations[key], score, scoring.lowerIsBetter);
+        PlayerStatistics.count(this.total, won);
+    }
+
+    /**
+     * Returns the statistics of every game together.
+     *
+     * @return a copy of the statistics of every game
+     */
+    getTotal(): ConfigurationStatistics {
+        return Object.assign({}, this.total);
+    }
+
+    /**
+     * Returns the statistics of each configuration which has been played, ordered by the kind of
+     * game, then the number of rows, then the number of draw cards, then the scoring.
+     *
+     * @return copies of the statistics of each configuration
+     */
+    getConfigurations(): Array<ConfigurationStatistics> {
+        return Object.keys(this.configurations).map((key) => {
+            return Object.assign({}, this.configurations[key]);
+        }).sort(function (a, b) {
+            return a.gameType.localeCompare(b.gameType) || a.numRows - b.numRows || a.numDraw - b.numDraw
+                || a.scoring.localeCompare(b.scoring);
+        });
+    }
+
+    /**
+     * Returns the fraction of the given games which were won, from 0 to 1, or 0 if none were
+     * played.
+     *
+     * @param statistics the statistics of the games
+     * @return the win rate of the games
+     */
+    static winRate(statistics: ConfigurationStatistics): number {
+        return statistics.played === 0 ? 0 : statistics.won / statistics.played;
+    }
+
+    /**
+     * Returns the average score of the given games, or null if none were scored.
+     *
+     * @param statistics the statistics of the games
+     * @return the average score of the games
+     */
+    static averageScore(statistics: ConfigurationStatistics): number {
+        return statistics.bestScore == null ? null : statistics.totalScore / statistics.played;
+    }
+
+    /**
+     * Returns the statistics of a configuration with no games played.
+     *
+     * @param gameType the kind of game, or null for every configuration together
+     * @param numRows  the number of rows of the pyramid, or null
+     * @param numDraw  the number of draw cards, or null
+     * @param scoring  the kind of scoring, or null
+     * @return the empty statistics
+     */
+    private static empty(gameType: string, numRows: number, numDraw: number,
+                         scoring: string): ConfigurationStatistics {
+        return {gameType: gameType, numRows: numRows, numDraw: numDraw, scoring: scoring, played: 0, won: 0,
+            bestScore: null, totalScore: 0, currentStreak: 0, longestStreak: 0, scores: {}};
+    }
+
+    /**
+     * Returns the key the statistics of the given configuration are kept by.
+     *
+     * @param gameType the kind of game
+     * @param numRows  the number of rows of the pyramid
+     * @param numDraw  the number of draw cards
+     * @param scoring  the kind of scoring
+     * @return the key of the configuration
+     */
+    private static keyOf(gameType: string, numRows: number, numDraw: number, scoring: string): string {
+        return gameType + "/" + numRows + "/" + numDraw + "/" + scoring;
+    }
+
+    /**
+     * Counts a finished game in the given statistics, without its score.
+     *
+     * @param statistics the statistics the game is counted in
+     * @param won        whether the game was won
+     */
+    private static count(statistics: ConfigurationStatistics, won: boolean): void {
+        statistics.played++;
+        // a lost game ends the streak
+        if (won) {
+            statistics.won++;
+            statistics.currentStreak++;
+            statistics.longestStreak = Math.max(statistics.longestStreak, statistics.currentStreak);
+        } else {
+            statistics.currentStreak = 0;
+        }
+    }
+
+    /**
+     * Counts the score of a finished game in the given statistics.
+     *
+     * @param statistics    the statistics the game is counted in
+     * @param score         the score the game ended with
+     * @param lowerIsBetter whether a lower score is a better one
+     */
+    private static countScore(statistics: ConfigurationStatistics, score: number, lowerIsBetter: boolean): void {
+        statistics.totalScore += score;
+        if (statistics.bestScore == null) {
+            statistics.bestScore = score;
+        } else {
+            statistics.bestScore = lowerIsBetter
+                ? Math.min(statistics.bestScore, score) : Math.max(statistics.bestScore, score);
+        }
+        statistics.scores = Object.assign({}, statistics.scores);
+        statistics.scores[score] = (statistics.scores[score] || 0) + 1;
+    }
+}
@@ -0,0 +1,54 @@
+import {BasicPyramidSolitaire} from "./BasicPyramidSolitaire";
+import {Card} from "./Card";
+import {Suit} from "./Suit";
+import {MoveType} from "./MoveType";
+import {PyramidSolitaireAnalyzer} from "./PyramidSolitaireAnalyzer";
+
+/**
+ * Returns a standard deck ordered so that the given cards are dealt first, in the given order.
+ */
+function deckStartingWith(model: BasicPyramidSolitaire, first: Array<Card>): Array<Card> {
+  const rest: Array<Card> = model.getDeck().filter(card => !first.some(other => other.equals(card)));
+  return first.concat(rest);
+}
+
+/**
+ * Returns a game with only the given pyramid left, with no draw cards and nothing in the stock.
+ */
+function gameWithPyramid(pyramid: Array<Array<Card>>): BasicPyramidSolitaire {
+  const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+  model.startGame(model.getDeck(), false, pyramid.length, 0);
+  // the game is scored by the sum of its pyramid
+  const score: number = pyramid.reduce((sum, row) => row.reduce((rowSum, card) => rowSum + card.getValue(), sum), 0);
+  model.fromJSON({...model.toJSON(), stock: [], waste: [], draws: [], score: score,
+    pyramid: pyramid.map(row => row.map(card => card.toJSON()))});
+  return model;
+}
+
+describe('PyramidSolitaireAnalyzer', () => {
+  test('finds exposed Kings safe, but not pairs which could be made another way', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    // row 0: A♥, row 1: K♥ Q♥, draws: A♠ 2♥, with the other aces still in the stock
+    model.startGame(deckStartingWith(model, [new Card(Suit.HEART, 1), new Card(Suit.HEART, 13),
+      new Card(Suit.HEART, 12), new Card(Suit.SPADE, 1), new Card(Suit.HEART, 2)]), false, 2, 2);
+    expect(PyramidSolitaireAnalyzer.safeMoves(model)).toEqual([{type: MoveType.REMOVE, row: 1, card: 0}]);
+    expect(PyramidSolitaireAnalyzer.forcedSequence(model)).toBeNull();
+  });
+
+  test('finds a pair safe when each card is the only partner of the other', () => {
+    // row 0: K♥, row 1: Q♥ A♥
+    const model: BasicPyramidSolitaire = gameWithPyramid([[new Card(Suit.HEART, 13)],
+      [new Card(Suit.HEART, 12), new Card(Suit.HEART, 1)]]);
+    expect(PyramidSolitaireAnalyzer.safeMoves(model)).toEqual([
+      {type: MoveType.REMOVE_TWO, row1: 1, card1: 0, row2: 1, card2: 1}]);
+  });
+
+  test('plays the only sequence of moves left to the end, without changing the game', () => {
+    const model: BasicPyramidSolitaire = gameWithPyramid([[new Card(Suit.HEART, 13)],
+      [new Card(Suit.HEART, 12), new Card(Suit.HEART, 1)]]);
+    expect(PyramidSolitaireAnalyzer.forcedSequence(model)).toEqual([
+      {type: MoveType.REMOVE_TWO, row1: 1, card1: 0, row2: 1, card2: 1},
+      {type: MoveType.REMOVE, row: 0, card: 0}]);
+    expect(model.getScore()).toBe(26);
+  });
+});
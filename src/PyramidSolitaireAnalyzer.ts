@@ -0,0 +1,105 @@
+import {AbstractPyramidSolitaire} from "./AbstractPyramidSolitaire";
+import {Card} from "./Card";
+import {Move} from "./Move";
+import {MoveType} from "./MoveType";
+
+/**
+ * Represents the analysis of the position of a game of pyramid solitaire which lets obvious moves
+ * be played for the player: the moves which can be made straight away without ever making the game
+ * harder to win, and the only sequence of moves left once there is no choice to be made.
+ * <p>A move is safe if it removes a card with the removal value by itself, such as a King, which no
+ * other card could ever be removed with, or if it removes a pair of cards which are each the only
+ * card left in the game that the other could ever be removed with, so that they have to be removed
+ * together sooner or later. The cards left in the game are those in the pyramid, the draw cards and
+ * the stock, and the waste if it can still be turned over.</p>
+ */
+export class PyramidSolitaireAnalyzer {
+    // the most moves followed when looking for the only sequence of moves left
+    static readonly MAX_FORCED_MOVES: number = 1000;
+
+    /**
+     * Returns the moves which can be made in the given game without making it any harder to win, in
+     * the order the game lists its legal moves.
+     *
+     * @param model the started game being analysed
+     * @return the safe moves of the game
+     * @throws Error if the game has not yet been started
+     */
+    static safeMoves(model: AbstractPyramidSolitaire): Array<Move> {
+        const pyramid: Array<Array<Card>> = model.getPyramid();
+        const draws: Array<Card> = model.getDrawCards();
+        const values: Map<number, number> = PyramidSolitaireAnalyzer.valuesLeft(model);
+        const removalValue: number = model.getRemovalValue();
+        // the number of cards left which the given card could be removed with
+        const partners = function (card: Card): number {
+            const partner: number = removalValue - card.getValue();
+            const count: number = values.get(partner) || 0;
+            return partner === card.getValue() ? count - 1 : count;
+        };
+
+        return model.getLegalMoves().filter(function (move) {
+            switch (move.type) {
+                case MoveType.REMOVE:
+                    return true;
+                case MoveType.REMOVE_TWO:
+                    return partners(pyramid[move.row1][move.card1]) === 1
+                        && partners(pyramid[move.row2][move.card2]) === 1;
+                case MoveType.REMOVE_USING_DRAW:
+                    return partners(draws[move.drawIndex]) === 1 && partners(pyramid[move.row][move.card]) === 1;
+                default:
+                    return false;
+            }
+        });
+    }
+
+    /**
+     * Returns the only sequence of moves left in the given game, if there is never more than one
+     * legal move to choose from until the game is over. Discarding a draw card counts as a choice,
+     * so there is rarely such a sequence while draw cards are left. The given game is not changed.
+     *
+     * @param model the started game being analysed
+     * @return the moves which play the game to its end, or null if there is a choice to be made or
+     * the game is already over
+     * @throws Error if the game has not yet been started
+     */
+    static forcedSequence(model: AbstractPyramidSolitaire): Array<Move> {
+        const game: AbstractPyramidSolitaire = model.copy();
+        const moves: Array<Move> = new Array<Move>();
+        while (!game.isGameOver()) {
+            const legalMoves: Array<Move> = game.getLegalMoves();
+            // Checks if there is a choice to be made, or the sequence is too long to follow.
+            if (legalMoves.length !== 1 || moves.length >= PyramidSolitaireAnalyzer.MAX_FORCED_MOVES) {
+                return null;
+            }
+            game.makeMove(legalMoves[0]);
+            moves.push(legalMoves[0]);
+        }
+        return moves.length > 0 ? moves : null;
+    }
+
+    /**
+     * Returns how many cards of each value are left in the given game.
+     *
+     * @param model the started game
+     * @return the number of cards left of each value, by value
+     */
+    private static valuesLeft(model: AbstractPyramidSolitaire): Map<number, number> {
+        let cards: Array<Card> = new Array<Card>();
+        model.getPyramid().forEach(function (row) {
+            cards = cards.concat(row);
+        });
+        cards = cards.concat(model.getDrawCards(), model.getStock());
+        // the waste is gone for good once it can no longer be turned over
+        if (model.getRedealsLeft() > 0) {
+            cards = cards.concat(model.getWaste());
+        }
+
+        const values: Map<number, number> = new Map<number, number>();
+        cards.forEach(function (card) {
+            if (card != null) {
+                values.set(card.getValue(), (values.get(card.getValue()) || 0) + 1);
+            }
+        });
+        return values;
+    }
+}
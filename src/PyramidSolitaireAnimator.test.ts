@@ -0,0 +1,119 @@
+import {PyramidSolitaireAnimator} from "./PyramidSolitaireAnimator";
+import {ViewCard} from "./ViewCard";
+import {Pos2D} from "./Pos2D";
+import {CardFaces} from "./CardFaces";
+import {Themes} from "./Themes";
+import {ignoringContext} from "./testUtils";
+
+/**
+ * Returns a drawing context which ignores everything drawn on it, keeping the rectangles filled.
+ */
+function fillingContext(filled: Array<string>): CanvasRenderingContext2D {
+  return ignoringContext((name: string, args: Array<unknown>) => {
+    if (name === "fillRect") {
+      filled.push(args.join());
+    }
+  });
+}
+
+describe('PyramidSolitaireAnimator', () => {
+  let now: number;
+  let frames: Array<FrameRequestCallback>;
+  let drawFrame: jest.Mock;
+  let card: ViewCard;
+  let offset: jest.SpyInstance;
+
+  // draws the frame which was asked for last, at the given time
+  function runFrame(time: number): void {
+    now = time;
+    frames[frames.length - 1](time);
+  }
+
+  beforeEach(() => {
+    now = 1000;
+    frames = [];
+    jest.spyOn(performance, 'now').mockImplementation(() => now);
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation(callback => frames.push(callback));
+    jest.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => undefined);
+    drawFrame = jest.fn();
+    // a draw card dealt at (100, 200)
+    card = new ViewCard(new Pos2D(100, 200), new Pos2D(0, -1), "A♠", true);
+    offset = jest.spyOn(card, 'setDragOffset');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('slides a card in one frame at a time until it is where it was dealt', () => {
+    const animator: PyramidSolitaireAnimator = new PyramidSolitaireAnimator(drawFrame,
+      {drawDuration: 100, reducedMotion: false});
+    animator.slideIn(card, 10, 20);
+    expect(offset).toHaveBeenLastCalledWith(-90, -180);
+    expect(animator.isRunning()).toBe(true);
+
+    runFrame(1050);
+    const [dx, dy] = offset.mock.calls[offset.mock.calls.length - 1];
+    expect(dx).toBeGreaterThan(-90);
+    expect(dx).toBeLessThan(0);
+    expect(dy).toBeGreaterThan(-180);
+    expect(drawFrame).toHaveBeenCalledTimes(1);
+    expect(frames.length).toBe(2);
+
+    runFrame(1100);
+    expect(offset).toHaveBeenLastCalledWith(0, 0);
+    expect(animator.isRunning()).toBe(false);
+    expect(drawFrame).toHaveBeenCalledTimes(2);
+    expect(frames.length).toBe(2);
+  });
+
+  test('draws a removed card until it has flown off the table', () => {
+    const animator: PyramidSolitaireAnimator = new PyramidSolitaireAnimator(drawFrame,
+      {removeDuration: 100, reducedMotion: false});
+    const faces: CardFaces = new CardFaces(Themes.CLASSIC, false, () => undefined);
+    const drawn: Array<string> = [];
+    card.setVisible(false);
+    animator.flyOff(card, 700, 0);
+    // the card itself stays hidden, while the animator draws a copy of it
+    expect(offset).not.toHaveBeenCalled();
+    animator.render(fillingContext(drawn), faces, 800, 600);
+    expect(drawn).toEqual(["100,200,60,70"]);
+
+    runFrame(1100);
+    drawn.length = 0;
+    animator.render(fillingContext(drawn), faces, 800, 600);
+    expect(drawn).toEqual([]);
+    expect(animator.isRunning()).toBe(false);
+  });
+
+  test('celebrates a win for as long as the celebration lasts', () => {
+    const animator: PyramidSolitaireAnimator = new PyramidSolitaireAnimator(drawFrame,
+      {celebrationDuration: 1000, reducedMotion: false});
+    animator.celebrate();
+    runFrame(1500);
+    expect(animator.isRunning()).toBe(true);
+    runFrame(2001);
+    expect(animator.isRunning()).toBe(false);
+  });
+
+  test('moves nothing by itself when motion is reduced', () => {
+    const animator: PyramidSolitaireAnimator = new PyramidSolitaireAnimator(drawFrame, {reducedMotion: true});
+    animator.slideIn(card, 10, 20);
+    animator.flyOff(card.copy(), 700, 0);
+    animator.celebrate();
+    expect(offset).toHaveBeenLastCalledWith(0, 0);
+    expect(animator.isRunning()).toBe(false);
+    expect(frames).toEqual([]);
+  });
+
+  test('puts every card where it ends up and stops asking for frames when everything is finished', () => {
+    const animator: PyramidSolitaireAnimator = new PyramidSolitaireAnimator(drawFrame, {reducedMotion: false});
+    animator.slideIn(card, 10, 20);
+    animator.celebrate();
+    animator.finishAll();
+    expect(offset).toHaveBeenLastCalledWith(0, 0);
+    expect(animator.isRunning()).toBe(false);
+    expect(window.cancelAnimationFrame).toHaveBeenCalledWith(1);
+    expect(drawFrame).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,276 @@
+import {ViewCard} from "./ViewCard";
+import {CardAnimation} from "./CardAnimation";
+import {AnimationOptions} from "./AnimationOptions";
+import {CardFaces} from "./CardFaces";
+
+/**
+ * Represents the animations of the visual view of a game of pyramid solitaire, which move cards
+ * across the table one frame at a time using {@code requestAnimationFrame}.
+ * <p>The view always holds the state the game ends up in, and the animator only changes where
+ * cards are drawn, so a card which is still moving can already be played. Removed cards are drawn
+ * by the animator, as copies which fade out as they fly off the table, and a win is celebrated with
+ * confetti falling over the table. The cards of a move which could not be made flash for a moment,
+ * or stay outlined for that moment if motion is reduced.</p>
+ */
+export class PyramidSolitaireAnimator {
+    static readonly DEFAULT_REMOVE_DURATION = 350;
+    static readonly DEFAULT_DRAW_DURATION = 250;
+    static readonly DEFAULT_CELEBRATION_DURATION = 3000;
+    static readonly FLASH_DURATION = 900;
+    static readonly FLASH_PERIOD = 150;
+    static readonly CONFETTI_COLORS = ["#f5d90a", "#ef0707", "#1e6bff", "#ffffff", "#ff8c00"];
+    static readonly CONFETTI_PIECES = 60;
+    private readonly onFrame: () => void;
+    private removeDuration: number;
+    private drawDuration: number;
+    private celebrationDuration: number;
+    private reducedMotion: boolean;
+    private animations: Array<CardAnimation>;
+    // the time the celebration started, or null if there is none
+    private celebrationStart: number;
+    // the cards which are flashing and the time they started, or null if none are
+    private flashCards: Array<ViewCard>;
+    private flashStart: number;
+    private frameRequest: number;
+
+    /**
+     * Creates a PyramidSolitaireAnimator object with the given settings.
+     * @param onFrame called to draw every frame of the animations
+     * @param options the settings of the animations
+     */
+    constructor(onFrame: () => void, options: AnimationOptions = {}) {
+        this.onFrame = onFrame;
+        this.animations = new Array<CardAnimation>();
+        this.celebrationStart = null;
+        this.flashCards = new Array<ViewCard>();
+        this.flashStart = null;
+        this.frameRequest = null;
+        this.setOptions(options);
+    }
+
+    /**
+     * Changes the settings of the animations, which apply to the animations started from now on.
+     * @param options the settings of the animations
+     */
+    setOptions(options: AnimationOptions): void {
+        this.removeDuration = options.removeDuration != null
+            ? options.removeDuration : PyramidSolitaireAnimator.DEFAULT_REMOVE_DURATION;
+        this.drawDuration = options.drawDuration != null
+            ? options.drawDuration : PyramidSolitaireAnimator.DEFAULT_DRAW_DURATION;
+        this.celebrationDuration = options.celebrationDuration != null
+            ? options.celebrationDuration : PyramidSolitaireAnimator.DEFAULT_CELEBRATION_DURATION;
+        this.reducedMotion = options.reducedMotion != null
+            ? options.reducedMotion : PyramidSolitaireAnimator.prefersReducedMotion();
+    }
+
+    /**
+     * Makes a copy of the given card fly off from where it was dealt to the given position on the
+     * screen, fading out as it goes. The card itself should already have been hidden.
+     * @param card the card which has been removed
+     * @param x the x position on the screen the card flies to
+     * @param y the y position on the screen the card flies to
+     */
+    flyOff(card: ViewCard, x: number, y: number): void {
+        const ghost: ViewCard = card.copy();
+        ghost.setVisible(true);
+        ghost.setSelected(false);
+        ghost.setHinted(false);
+        ghost.setFlashed(false);
+        ghost.setPlayable(false);
+        ghost.setFocused(false);
+        this.start({card: ghost, ghost: true, fromX: 0, fromY: 0,
+            toX: x - card.getScreenPosition().getX(), toY: y - card.getScreenPosition().getY(),
+            startTime: performance.now(), duration: this.removeDuration});
+    }
+
+    /**
+     * Makes the given card slide in from the given position on the screen to where it was dealt.
+     * @param card the card which has just been put on the table
+     * @param x the x position on the screen the card slides in from
+     * @param y the y position on the screen the card slides in from
+     */
+    slideIn(card: ViewCard, x: number, y: number): void {
+        this.start({card: card, ghost: false,
+            fromX: x - card.getScreenPosition().getX(), fromY: y - card.getScreenPosition().getY(),
+            toX: 0, toY: 0, startTime: performance.now(), duration: this.drawDuration});
+    }
+
+    /**
+     * Starts the celebration of a won game.
+     */
+    celebrate(): void {
+        if (this.reducedMotion || this.celebrationDuration <= 0) {
+            return;
+        }
+        this.celebrationStart = performance.now();
+        this.requestFrame();
+    }
+
+    /**
+     * Flashes the given cards for a moment, ending any cards flashing before.
+     * @param cards the cards to be flashed
+     */
+    flash(cards: Array<ViewCard>): void {
+        this.stopFlash();
+        this.flashCards = cards.slice();
+        this.flashCards.forEach(function (card) {
+            card.setFlashed(true);
+        });
+        this.flashStart = performance.now();
+        this.requestFrame();
+    }
+
+    /**
+     * Returns whether anything is still being animated.
+     * @return whether there are animations running
+     */
+    isRunning(): boolean {
+        return this.animations.length > 0 || this.celebrationStart != null || this.flashStart != null;
+    }
+
+    /**
+     * Ends every animation straight away, leaving every card where it ends up. The table is not
+     * drawn again.
+     */
+    finishAll(): void {
+        this.animations.forEach(function (animation) {
+            animation.card.setDragOffset(animation.toX, animation.toY);
+        });
+        this.animations = new Array<CardAnimation>();
+        this.celebrationStart = null;
+        this.stopFlash();
+        if (this.frameRequest != null) {
+            window.cancelAnimationFrame(this.frameRequest);
+            this.frameRequest = null;
+        }
+    }
+
+    /**
+     * Draws the copies of the removed cards flying off the table and the confetti of a
+     * celebration, over everything else on the table.
+     * @param context the graphics to be rendered with
+     * @param faces the way the faces of the cards are drawn
+     * @param width the width of the table
+     * @param height the height of the table
+     */
+    render(context: CanvasRenderingContext2D, faces: CardFaces, width: number, height: number): void {
+        const now: number = performance.now();
+        for (let index = 0; index < this.animations.length; index++) {
+            const animation: CardAnimation = this.animations[index];
+            if (animation.ghost) {
+                context.globalAlpha = 1 - PyramidSolitaireAnimator.progress(animation, now);
+                animation.card.render(context, faces);
+                context.globalAlpha = 1;
+            }
+        }
+
+        if (this.celebrationStart != null) {
+            // every piece of confetti falls at its own speed from its own place, swaying as it goes
+            const elapsed: number = now - this.celebrationStart;
+            for (let piece = 0; piece < PyramidSolitaireAnimator.CONFETTI_PIECES; piece++) {
+                const x: number = (piece * 97) % width + 20 * Math.sin(elapsed / 300 + piece);
+                const y: number = (elapsed * (0.15 + (piece % 7) * 0.04) + piece * 53) % height - 20;
+                context.fillStyle = PyramidSolitaireAnimator.CONFETTI_COLORS[
+                    piece % PyramidSolitaireAnimator.CONFETTI_COLORS.length];
+                context.fillRect(x, y, 8, 12);
+            }
+        }
+    }
+
+    /**
+     * Starts the given animation, ending any other animation of the same card first. Nothing is
+     * animated if motion is reduced.
+     * @param animation the animation to be started
+     */
+    private start(animation: CardAnimation): void {
+        this.animations = this.animations.filter(function (other) {
+            if (other.card === animation.card) {
+                other.card.setDragOffset(other.toX, other.toY);
+                return false;
+            }
+            return true;
+        });
+        if (this.reducedMotion || animation.duration <= 0) {
+            animation.card.setDragOffset(animation.toX, animation.toY);
+            return;
+        }
+        animation.card.setDragOffset(animation.fromX, animation.fromY);
+        this.animations.push(animation);
+        this.requestFrame();
+    }
+
+    /**
+     * Asks for the next frame to be drawn, unless it already has been.
+     */
+    private requestFrame(): void {
+        if (this.frameRequest == null) {
+            this.frameRequest = window.requestAnimationFrame(this.frame.bind(this));
+        }
+    }
+
+    /**
+     * Moves every card being animated to where it is at the given time, ends the animations which
+     * are over, draws the frame and asks for another if anything is still moving.
+     * @param time the time of the frame, in milliseconds
+     */
+    private frame(time: number): void {
+        this.frameRequest = null;
+        const now: number = Math.max(time, performance.now());
+        this.animations = this.animations.filter(function (animation) {
+            const eased: number = 1 - Math.pow(1 - PyramidSolitaireAnimator.progress(animation, now), 3);
+            animation.card.setDragOffset(animation.fromX + (animation.toX - animation.fromX) * eased,
+                animation.fromY + (animation.toY - animation.fromY) * eased);
+            return now < animation.startTime + animation.duration;
+        });
+        if (this.celebrationStart != null && now > this.celebrationStart + this.celebrationDuration) {
+            this.celebrationStart = null;
+        }
+        if (this.flashStart != null) {
+            // the cards blink on and off, unless motion is reduced, until the flash is over
+            const elapsed: number = now - this.flashStart;
+            const shown: boolean = this.reducedMotion
+                || Math.floor(elapsed / PyramidSolitaireAnimator.FLASH_PERIOD) % 2 === 0;
+            if (elapsed >= PyramidSolitaireAnimator.FLASH_DURATION) {
+                this.stopFlash();
+            } else {
+                this.flashCards.forEach(function (card) {
+                    card.setFlashed(shown);
+                });
+            }
+        }
+        this.onFrame();
+        if (this.isRunning()) {
+            this.requestFrame();
+        }
+    }
+
+    /**
+     * Stops the cards which are flashing from flashing, without drawing the table again.
+     */
+    private stopFlash(): void {
+        this.flashCards.forEach(function (card) {
+            card.setFlashed(false);
+        });
+        this.flashCards = new Array<ViewCard>();
+        this.flashStart = null;
+    }
+
+    /**
+     * Returns how far through the given animation is at the given time, from 0 to 1.
+     * @param animation the animation
+     * @param now the time, in milliseconds
+     * @return the fraction of the animation which has passed
+     */
+    private static progress(animation: CardAnimation, now: number): number {
+        return Math.min(1, Math.max(0, (now - animation.startTime) / animation.duration));
+    }
+
+    /**
+     * Returns whether the player's system asks for motion to be reduced.
+     * @return whether motion should be reduced
+     */
+    private static prefersReducedMotion(): boolean {
+        return typeof window !== "undefined" && window.matchMedia != null
+            && window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+    }
+}
@@ -0,0 +1,33 @@
+import {AbstractPyramidSolitaire} from "./AbstractPyramidSolitaire";
+import {BasicPyramidSolitaire} from "./BasicPyramidSolitaire";
+import {RelaxedPyramidSolitaire} from "./RelaxedPyramidSolitaire";
+import {MultiPyramidSolitaire} from "./MultiPyramidSolitaire";
+import {GameType} from "./GameType";
+import {DeckSpec} from "./DeckSpec";
+
+/**
+ * Represents a factory for the models of the different kinds of games of pyramid solitaire.
+ */
+export class PyramidSolitaireCreator {
+
+    /**
+     * Creates a model for a new game of the given kind, played with a deck of the given make-up.
+     *
+     * @param type     the kind of game
+     * @param deckSpec the make-up of the deck, or undefined for the usual deck of that kind of game
+     * @return a model for the game, which has not been started
+     * @throws Error if the kind of game is not known or the make-up of the deck is not valid
+     */
+    static create(type: GameType, deckSpec?: DeckSpec): AbstractPyramidSolitaire {
+        switch (type) {
+            case GameType.BASIC:
+                return new BasicPyramidSolitaire(deckSpec);
+            case GameType.RELAXED:
+                return new RelaxedPyramidSolitaire(deckSpec);
+            case GameType.MULTI:
+                return new MultiPyramidSolitaire(deckSpec);
+            default:
+                throw new Error("Unknown kind of game: " + type + ".");
+        }
+    }
+}
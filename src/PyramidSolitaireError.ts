@@ -0,0 +1,27 @@
+import {ErrorCode} from "./ErrorCode";
+import {CardPosition} from "./CardPosition";
+
+/**
+ * Represents an illegal move or query of a game of pyramid solitaire. Each kind of error has its
+ * own code, which can be relied on where the message cannot, and carries the positions of the
+ * cards involved so that they can be pointed out to the player.
+ */
+export abstract class PyramidSolitaireError extends Error {
+    readonly code: ErrorCode;
+    readonly positions: Array<CardPosition>;
+
+    /**
+     * Creates a PyramidSolitaireError object.
+     * @param code      the reason of the error
+     * @param message   the message of the error
+     * @param positions the positions of the cards involved, if any
+     */
+    protected constructor(code: ErrorCode, message: string, positions: Array<CardPosition>) {
+        super(message);
+        // keeps instanceof working for subclasses of Error when compiled to older JavaScript
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = new.target.name;
+        this.code = code;
+        this.positions = positions.slice();
+    }
+}
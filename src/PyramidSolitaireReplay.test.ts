@@ -0,0 +1,56 @@
+import {BasicPyramidSolitaire} from "./BasicPyramidSolitaire";
+import {Card} from "./Card";
+import {Suit} from "./Suit";
+import {MoveType} from "./MoveType";
+import {GameRecording} from "./GameRecording";
+import {GameSession} from "./GameSession";
+import {PyramidSolitaireReplay} from "./PyramidSolitaireReplay";
+import {createView, ignoringContext} from "./testUtils";
+
+describe('PyramidSolitaireReplay', () => {
+  beforeEach(() => {
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => ignoringContext());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  test('stops at a recorded move which cannot be played, without playing the moves after it', () => {
+    const recorded: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    // row 0: A♥, row 1: K♥ Q♥, draws: A♠ 2♥
+    const first: Array<Card> = [new Card(Suit.HEART, 1), new Card(Suit.HEART, 13),
+      new Card(Suit.HEART, 12), new Card(Suit.SPADE, 1), new Card(Suit.HEART, 2)];
+    recorded.startGame(first.concat(recorded.getDeck().filter(card => !first.some(other => other.equals(card)))),
+      false, 2, 2);
+    recorded.makeMove({type: MoveType.REMOVE, row: 1, card: 0});
+    const recording: GameRecording = recorded.getRecording();
+    // the A♥ is still covered by the Q♥, so the recording cannot have come from this deal
+    const corrupt: GameRecording = {...recording, moves: recording.moves.concat(
+      {move: {type: MoveType.REMOVE, row: 0, card: 0}, time: recording.startTime},
+      {move: {type: MoveType.DISCARD_DRAW, drawIndex: 0}, time: recording.startTime})};
+
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    const session: GameSession = new GameSession(model, createView(), false);
+    const replay: PyramidSolitaireReplay = new PyramidSolitaireReplay(session.getController(), corrupt);
+    const changed: jest.Mock = jest.fn();
+    replay.setChangeListener(changed);
+    replay.start();
+    replay.step();
+    expect(replay.getPosition()).toBe(1);
+    expect(replay.hasFailed()).toBe(false);
+
+    changed.mockClear();
+    replay.step();
+    expect(changed).toHaveBeenCalled();
+    expect(replay.hasFailed()).toBe(true);
+    expect(replay.getPosition()).toBe(1);
+    expect(replay.isFinished()).toBe(true);
+    expect(replay.isPlaying()).toBe(false);
+    replay.step();
+    expect(model.getRecording().moves.map(recordedMove => recordedMove.move))
+      .toEqual([{type: MoveType.REMOVE, row: 1, card: 0}]);
+    session.dispose();
+  });
+});
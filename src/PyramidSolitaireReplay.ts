@@ -0,0 +1,183 @@
+import {PyramidSolitaireVisualController} from "./PyramidSolitaireVisualController";
+import {GameRecording} from "./GameRecording";
+import {Card} from "./Card";
+import {ScoringType} from "./ScoringType";
+
+/**
+ * Represents the playback of a recorded game of pyramid solitaire through a visual controller, so
+ * that each recorded move updates the view exactly as it did when it was played. The moves can be
+ * played one at a time or in order with the pauses the player took between them, sped up or slowed
+ * down, within limits so that nothing takes too long to watch.
+ */
+export class PyramidSolitaireReplay {
+    static readonly MIN_DELAY_MS = 250;
+    static readonly MAX_DELAY_MS = 3000;
+    private readonly controller: PyramidSolitaireVisualController;
+    private readonly recording: GameRecording;
+    private nextMove: number;
+    private speed: number;
+    private timer: number;
+    // whether a recorded move could not be played, which ends the playback early
+    private failed: boolean;
+    private changeListener: () => void;
+
+    /**
+     * Creates a PyramidSolitaireReplay object which plays the given recording through the given
+     * controller.
+     * @param controller the controller the moves are made through, which should not save its game
+     * @param recording the recording to be played
+     */
+    constructor(controller: PyramidSolitaireVisualController, recording: GameRecording) {
+        this.controller = controller;
+        this.recording = recording;
+        this.nextMove = 0;
+        this.speed = 1;
+        this.timer = null;
+        this.failed = false;
+        this.changeListener = null;
+    }
+
+    /**
+     * Deals the recorded deck in its recorded order, ready for the first move to be played.
+     * @throws Error if the recorded deck cannot be dealt
+     */
+    start(): void {
+        const deck: Array<Card> = this.recording.deck.map(function (card) {
+            return Card.fromJSON(card);
+        });
+        // recordings made before redeals and scoring were added have none
+        this.controller.playGame(deck, false, this.recording.numRows, this.recording.numDraw,
+            {redeals: this.recording.redeals || 0, removalValue: this.recording.removalValue,
+                scoring: this.recording.scoring as ScoringType || ScoringType.PYRAMID_SUM});
+        this.nextMove = 0;
+        this.failed = false;
+        this.changed();
+    }
+
+    /**
+     * Plays the remaining moves in order, waiting between each one.
+     */
+    play(): void {
+        if (!this.isPlaying() && !this.isFinished()) {
+            this.scheduleNext();
+            this.changed();
+        }
+    }
+
+    /**
+     * Stops playing moves until {@link play} or {@link step} is called.
+     */
+    pause(): void {
+        if (this.isPlaying()) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+            this.changed();
+        }
+    }
+
+    /**
+     * Plays the next move straight away, pausing the playback.
+     */
+    step(): void {
+        this.pause();
+        this.playNext();
+    }
+
+    /**
+     * Sets how many times faster than the player the moves are played.
+     * @param speed the speed of playback, where 1 is the speed of the player
+     * @throws Error if the speed is not positive
+     */
+    setSpeed(speed: number): void {
+        if (!(speed > 0)) {
+            throw new Error("The speed of a replay must be positive.");
+        }
+        this.speed = speed;
+    }
+
+    /**
+     * Sets the function called whenever the playback starts, stops, moves on or fails.
+     * @param listener the function to be called
+     */
+    setChangeListener(listener: () => void): void {
+        this.changeListener = listener;
+    }
+
+    isPlaying(): boolean {
+        return this.timer != null;
+    }
+
+    isFinished(): boolean {
+        return this.failed || this.nextMove >= this.recording.moves.length;
+    }
+
+    /**
+     * Returns whether the playback ended early because a recorded move could not be played, which
+     * means the recording does not match its deal. The position is then that of the failed move.
+     * @return whether a recorded move could not be played
+     */
+    hasFailed(): boolean {
+        return this.failed;
+    }
+
+    /**
+     * Returns the number of moves which have been played so far.
+     * @return the number of moves played
+     */
+    getPosition(): number {
+        return this.nextMove;
+    }
+
+    /**
+     * Returns the number of moves in the recording.
+     * @return the number of recorded moves
+     */
+    getLength(): number {
+        return this.recording.moves.length;
+    }
+
+    /**
+     * Plays the next move, if there is one. A move which cannot be made ends the playback, as none
+     * of the moves after it can be trusted.
+     */
+    private playNext(): void {
+        if (this.isFinished()) {
+            return;
+        }
+        if (this.controller.applyMove(this.recording.moves[this.nextMove].move)) {
+            this.nextMove++;
+        } else {
+            this.failed = true;
+        }
+        this.changed();
+    }
+
+    /**
+     * Waits for the time the player took before the next move, then plays it and carries on.
+     */
+    private scheduleNext(): void {
+        const previousTime: number = this.nextMove === 0
+            ? this.recording.startTime : this.recording.moves[this.nextMove - 1].time;
+        const gap: number = this.recording.moves[this.nextMove].time - previousTime;
+        const delay: number = Math.min(PyramidSolitaireReplay.MAX_DELAY_MS,
+            Math.max(PyramidSolitaireReplay.MIN_DELAY_MS, gap)) / this.speed;
+
+        this.timer = window.setTimeout(() => {
+            this.timer = null;
+            this.playNext();
+            if (!this.isFinished()) {
+                this.scheduleNext();
+            }
+            this.changed();
+        }, delay);
+    }
+
+    /**
+     * Tells the change listener, if there is one, that the playback has changed.
+     */
+    private changed(): void {
+        if (this.changeListener != null) {
+            this.changeListener();
+        }
+    }
+}
@@ -0,0 +1,58 @@
+import {BasicPyramidSolitaire} from "./BasicPyramidSolitaire";
+import {Card} from "./Card";
+import {Suit} from "./Suit";
+import {PyramidSolitaireSolver, SolverResult} from "./PyramidSolitaireSolver";
+import {SolverStatus} from "./SolverStatus";
+
+/**
+ * Returns a standard deck ordered so that the given cards are dealt first, in the given order.
+ */
+function deckStartingWith(model: BasicPyramidSolitaire, first: Array<Card>): Array<Card> {
+  const rest: Array<Card> = model.getDeck().filter(card => !first.some(other => other.equals(card)));
+  return first.concat(rest);
+}
+
+describe('PyramidSolitaireSolver', () => {
+  test('finds a winning sequence of moves which clears the pyramid', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    // row 0: A♥, row 1: K♥ Q♠, draws: 5♥, stock starts with A♠
+    model.startGame(deckStartingWith(model, [new Card(Suit.HEART, 1), new Card(Suit.HEART, 13),
+      new Card(Suit.SPADE, 12), new Card(Suit.HEART, 5), new Card(Suit.SPADE, 1)]), false, 2, 1);
+
+    const result: SolverResult = new PyramidSolitaireSolver().solve(model);
+    expect(result.status).toBe(SolverStatus.WINNABLE);
+
+    // the given game is left as it was, and the moves win it
+    expect(model.getScore()).toBe(26);
+    result.moves.forEach(move => model.makeMove(move));
+    expect(model.getScore()).toBe(0);
+  });
+
+  test('reports a deal with no moves as unwinnable', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    model.startGame(model.getDeck(), false, 1, 0);
+    const result: SolverResult = new PyramidSolitaireSolver().solve(model);
+    expect(result.status).toBe(SolverStatus.UNWINNABLE);
+    expect(result.moves).toEqual([]);
+  });
+
+  test('gives up when it runs out of nodes', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    model.startGame(model.getDeck(), true, 7, 3, {seed: 42});
+    const result: SolverResult = new PyramidSolitaireSolver({maxNodes: 5}).solve(model);
+    expect(result.status).toBe(SolverStatus.UNDECIDED);
+  });
+
+  test('decides a full deal', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    model.startGame(model.getDeck(), true, 7, 3, {seed: 7});
+    const result: SolverResult = new PyramidSolitaireSolver().solve(model);
+    expect(result.status).not.toBe(SolverStatus.UNDECIDED);
+    result.moves.forEach(move => model.makeMove(move));
+    expect(model.getScore() === 0).toBe(result.status === SolverStatus.WINNABLE);
+  });
+
+  test('requires a started game', () => {
+    expect(() => new PyramidSolitaireSolver().solve(new BasicPyramidSolitaire())).toThrow();
+  });
+});
@@ -0,0 +1,272 @@
+import {AbstractPyramidSolitaire} from "./AbstractPyramidSolitaire";
+import {Card} from "./Card";
+import {Move} from "./Move";
+import {MoveType} from "./MoveType";
+import {SolverStatus} from "./SolverStatus";
+
+/**
+ * Represents the limits on how much searching a solver may do before giving up.
+ */
+export interface SolverOptions {
+    // the most positions which may be explored
+    maxNodes?: number;
+    // the most milliseconds which may be spent searching
+    maxTimeMs?: number;
+}
+
+/**
+ * Represents the outcome of solving a deal.
+ */
+export interface SolverResult {
+    readonly status: SolverStatus;
+    // the winning sequence of moves if the deal is winnable, otherwise empty
+    readonly moves: Array<Move>;
+    // the number of positions explored
+    readonly nodes: number;
+}
+
+/**
+ * Represents a solver for games of pyramid solitaire, which decides whether a started game can
+ * still be won by trying every sequence of moves from its current position.
+ * <p>The moves tried are the game's own legal moves, made on a copy of the game using the game's
+ * own moves and undone using the game's own history, so the solver follows exactly the same rules
+ * as the player. Positions which
+ * have already been explored are remembered so that they are never searched twice.</p>
+ */
+export class PyramidSolitaireSolver {
+    static readonly DEFAULT_MAX_NODES: number = 1000000;
+    static readonly DEFAULT_MAX_TIME_MS: number = 10000;
+    private readonly maxNodes: number;
+    private readonly maxTimeMs: number;
+    private game: AbstractPyramidSolitaire;
+    private explored: Set<string>;
+    private path: Array<Move>;
+    private nodes: number;
+    private deadline: number;
+    // whether the waste of the game being solved can still be turned over to become the stock
+    private recycles: boolean;
+
+    /**
+     * Creates a PyramidSolitaireSolver object with the given limits.
+     * @param options the limits on the searching of this solver
+     */
+    constructor(options: SolverOptions = {}) {
+        this.maxNodes = options.maxNodes != null
+            ? options.maxNodes : PyramidSolitaireSolver.DEFAULT_MAX_NODES;
+        this.maxTimeMs = options.maxTimeMs != null
+            ? options.maxTimeMs : PyramidSolitaireSolver.DEFAULT_MAX_TIME_MS;
+    }
+
+    /**
+     * Finds out whether the given game can be won from its current position, and how. The given
+     * game is not changed.
+     *
+     * @param model the started game to be solved
+     * @return the result of the search, with a winning sequence of moves if there is one
+     * @throws Error if the game has not yet been started
+     */
+    solve(model: AbstractPyramidSolitaire): SolverResult {
+        // Checks if the game has been started.
+        if (model.getNumRows() === -1) {
+            throw new Error("The game has not yet started.");
+        }
+        this.game = model.copy();
+        this.recycles = model.getRedealsLeft() > 0;
+        this.explored = new Set<string>();
+        this.path = new Array<Move>();
+        this.nodes = 0;
+        this.deadline = Date.now() + this.maxTimeMs;
+
+        const found: boolean = this.search();
+        if (found == null) {
+            return {status: SolverStatus.UNDECIDED, moves: [], nodes: this.nodes};
+        }
+        return {
+            status: found ? SolverStatus.WINNABLE : SolverStatus.UNWINNABLE,
+            moves: found ? this.path.slice() : [],
+            nodes: this.nodes
+        };
+    }
+
+    /**
+     * Searches every sequence of moves from the current position of the game being solved, leaving
+     * the winning moves in the path if one is found.
+     *
+     * @return true if the position can be won, false if it cannot, or null if the search ran out of
+     * nodes or time
+     */
+    private search(): boolean {
+        const pyramid: Array<Array<Card>> = this.game.getPyramid();
+        if (this.isCleared(pyramid)) {
+            return true;
+        }
+
+        // checks if this position has been seen before
+        const drawCards: Array<Card> = this.game.getDrawCards();
+        const key: string = this.positionKey(pyramid, drawCards);
+        if (this.explored.has(key)) {
+            return false;
+        }
+        this.explored.add(key);
+
+        // checks if a card is left in the pyramid which can never be removed
+        if (this.hasStrandedCard(pyramid, drawCards)) {
+            return false;
+        }
+
+        // checks if the search has run out of nodes or time
+        this.nodes++;
+        if (this.nodes > this.maxNodes || (this.nodes % 1000 === 0 && Date.now() > this.deadline)) {
+            return null;
+        }
+
+        const moves: Array<Move> = this.orderedMoves();
+        for (let index = 0; index < moves.length; index++) {
+            this.game.makeMove(moves[index]);
+            this.path.push(moves[index]);
+            const found: boolean = this.search();
+            if (found !== false) {
+                return found;
+            }
+            this.path.pop();
+            this.game.undo();
+        }
+        return false;
+    }
+
+    /**
+     * Returns the legal moves worth trying from the current position of the game being solved, most
+     * promising first. If an uncovered card can be removed by itself that is the only move
+     * returned, because removing it never takes away any other move. Draw cards are only worth
+     * discarding while there are cards left in the stock to replace them, or a redeal left to turn
+     * the waste into a new stock.
+     *
+     * @return the moves to be tried, in order
+     */
+    private orderedMoves(): Array<Move> {
+        const moves: Array<Move> = this.game.getLegalMoves();
+        const stockEmpty: boolean = this.game.getStockSize() === 0 && this.game.getRedealsLeft() === 0;
+        const result: Array<Move> = new Array<Move>();
+        for (let index = 0; index < moves.length; index++) {
+            if (moves[index].type === MoveType.REMOVE) {
+                return [moves[index]];
+            }
+            if (!(stockEmpty && moves[index].type === MoveType.DISCARD_DRAW)) {
+                result.push(moves[index]);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns whether a card left in the pyramid has no partner left anywhere it could ever be
+     * paired with, either outside the pyramid or at a position of the pyramid the game allows it to
+     * be paired with.
+     *
+     * @param pyramid the pyramid of the game being solved
+     * @param drawCards the draw cards of the game being solved
+     * @return whether the position can no longer be won
+     */
+    private hasStrandedCard(pyramid: Array<Array<Card>>, drawCards: Array<Card>): boolean {
+        const removalValue: number = this.game.getRemovalValue();
+        // counts the values of the cards which are not in the pyramid
+        const available: Array<number> = new Array<number>(removalValue + 1).fill(0);
+        const countValue = function (card: Card) {
+            if (card != null && card.getValue() <= removalValue) {
+                available[card.getValue()]++;
+            }
+        };
+        drawCards.forEach(countValue);
+        this.game.getStock().forEach(countValue);
+        // the waste can only be reached again by turning it over
+        if (this.game.getRedealsLeft() > 0) {
+            this.game.getWaste().forEach(countValue);
+        }
+
+        for (let row = 0; row < pyramid.length; row++) {
+            for (let card = 0; card < pyramid[row].length; card++) {
+                if (pyramid[row][card] != null && pyramid[row][card].getValue() !== removalValue
+                    && !this.hasPartner(pyramid, row, card, available)) {
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Returns whether the pyramid card at the given position has a card it could be paired with,
+     * either among the given counts of values outside the pyramid or in the pyramid itself.
+     *
+     * @param pyramid the pyramid of the game being solved
+     * @param row the row of the card
+     * @param card the index of the card in its row
+     * @param available the number of cards of each value outside of the pyramid
+     * @return whether the card has a possible partner
+     */
+    private hasPartner(pyramid: Array<Array<Card>>, row: number, card: number,
+                       available: Array<number>): boolean {
+        const needed: number = this.game.getRemovalValue() - pyramid[row][card].getValue();
+        if (needed < 0) {
+            return false;
+        }
+        if (available[needed] > 0) {
+            return true;
+        }
+        for (let otherRow = 0; otherRow < pyramid.length; otherRow++) {
+            for (let otherCard = 0; otherCard < pyramid[otherRow].length; otherCard++) {
+                const other: Card = pyramid[otherRow][otherCard];
+                if (other != null && other.getValue() === needed
+                    && this.game.canPairPositions(row, card, otherRow, otherCard)) {
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Returns whether every card has been removed from the given pyramid.
+     *
+     * @param pyramid the pyramid being checked
+     * @return whether the pyramid is empty
+     */
+    private isCleared(pyramid: Array<Array<Card>>): boolean {
+        for (let row = 0; row < pyramid.length; row++) {
+            for (let card = 0; card < pyramid[row].length; card++) {
+                if (pyramid[row][card] != null) {
+                    return false;
+                }
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Returns a key which is the same for two positions of the game being solved exactly when the
+     * same moves can be made from them. The order of the draw cards makes no difference. Without
+     * redeals the stock is only ever drawn from, so its size is enough to know what is left in it,
+     * but once the waste can be turned over the stock, the waste and the redeals left all count.
+     *
+     * @param pyramid the pyramid of the game being solved
+     * @param drawCards the draw cards of the game being solved
+     * @return the key of the current position
+     */
+    private positionKey(pyramid: Array<Array<Card>>, drawCards: Array<Card>): string {
+        let key: string = "";
+        for (let row = 0; row < pyramid.length; row++) {
+            for (let card = 0; card < pyramid[row].length; card++) {
+                key += pyramid[row][card] == null ? "0" : "1";
+            }
+        }
+        const drawLabels: Array<string> = drawCards.map(function (card) {
+            return card == null ? "" : card.toString();
+        });
+        key += "|" + drawLabels.sort().join(",") + "|" + this.game.getStockSize();
+        if (this.recycles) {
+            key += "|" + this.game.getStock().join(",") + "|" + this.game.getWaste().join(",")
+                + "|" + this.game.getRedealsLeft();
+        }
+        return key;
+    }
+}
@@ -0,0 +1,60 @@
+import {PassThrough} from "stream";
+import {BasicPyramidSolitaire} from "./BasicPyramidSolitaire";
+import {PyramidSolitaireTextualController} from "./PyramidSolitaireTextualController";
+import {Card} from "./Card";
+import {Suit} from "./Suit";
+
+function deckStartingWith(model: BasicPyramidSolitaire, first: Array<Card>): Array<Card> {
+  const rest: Array<Card> = model.getDeck().filter(card => !first.some(other => other.equals(card)));
+  return first.concat(rest);
+}
+
+// plays a game with row 0: K♥, row 1: Q♥ A♥ and draws: 10♠ 2♥ using the given input
+async function play(model: BasicPyramidSolitaire, input: string): Promise<string> {
+  const inStream: PassThrough = new PassThrough();
+  const outStream: PassThrough = new PassThrough();
+  let output: string = "";
+  outStream.on("data", chunk => output += chunk.toString());
+  inStream.end(input);
+  await new PyramidSolitaireTextualController(inStream, outStream).playGame(model,
+    deckStartingWith(model, [new Card(Suit.HEART, 13), new Card(Suit.HEART, 12),
+      new Card(Suit.HEART, 1), new Card(Suit.SPADE, 10), new Card(Suit.HEART, 2)]), false, 2, 2);
+  return output;
+}
+
+describe('PyramidSolitaireTextualController', () => {
+  let model: BasicPyramidSolitaire;
+
+  beforeEach(() => {
+    model = new BasicPyramidSolitaire();
+  });
+
+  test('plays the entered moves and prints the game after each one until it is won', async () => {
+    const output: string = await play(model, "rm2 2 1\n2 2\nrm1 1 1\n");
+    expect(output).toBe("  K♥\nQ♥  A♥\nDraw: 10♠ 2♥\nScore: 26\n"
+      + "  K♥\n\nDraw: 10♠ 2♥\nScore: 13\n"
+      + "\n\nDraw: 10♠ 2♥\nScore: 0\n"
+      + "You win!\n");
+    expect(model.isGameOver()).toBe(true);
+  });
+
+  test('reports bad input and asks again', async () => {
+    const output: string = await play(model, "rm1 x 2 2 foo rm1 1 1 dd 3 rmwd 1 1 1 Q rm2 2 1 2 2");
+    const lines: Array<string> = output.split("\n");
+    expect(lines.slice(4, 8)).toEqual([
+      "Invalid number x. Enter it again.",
+      "Invalid move. Play again. The given card does not have a value of 13, and therefore cannot be removed.",
+      "Invalid move. Play again. Unknown command foo.",
+      "Invalid move. Play again. The card at the given index is covered and therefore cannot be removed."]);
+    expect(lines[8]).toMatch(/^Invalid move. Play again. /);
+    expect(lines[9]).toMatch(/^Invalid move. Play again. /);
+    expect(lines.slice(10)).toEqual(["Game quit!", "State of game when quit:", "  K♥",
+      "Q♥  A♥", "Draw: 10♠ 2♥", "Score: 26", ""]);
+    expect(model.getScore()).toBe(26);
+  });
+
+  test('stops when the input runs out', async () => {
+    const output: string = await play(model, "rm2 2 1 2");
+    expect(output).toBe("  K♥\nQ♥  A♥\nDraw: 10♠ 2♥\nScore: 26\n");
+  });
+});
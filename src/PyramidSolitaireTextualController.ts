@@ -0,0 +1,239 @@
+import {AbstractPyramidSolitaire} from "./AbstractPyramidSolitaire";
+import {Card} from "./Card";
+import {GameOptions} from "./GameOptions";
+import {PyramidSolitaireTextualView} from "./PyramidSolitaireTextualView";
+
+/**
+ * Represents the controller for the textual version of pyramid solitaire, which reads the player's
+ * commands from an input stream and writes the game to an output stream, for playing in a terminal.
+ * <p>The input is read as words separated by whitespace, so a command and its numbers may be
+ * spread over several lines. Rows, cards and draw cards are numbered from 1. The commands are:</p>
+ * <ul>
+ *   <li>{@code rm1 row card} removes the single card at the given position</li>
+ *   <li>{@code rm2 row1 card1 row2 card2} removes the pair of cards at the given positions</li>
+ *   <li>{@code rmwd draw row card} removes the given draw card with the card at the given
+ *   position</li>
+ *   <li>{@code dd draw} discards the given draw card</li>
+ *   <li>{@code q} or {@code Q} quits the game, and may be entered in place of any number</li>
+ * </ul>
+ * <p>The game is written after it starts and after every move. A move the model does not allow is
+ * reported with the model's message and the player is asked to play again, an unknown command is
+ * reported the same way, and a word which is not a number is reported and that number asked for
+ * again.</p>
+ */
+export class PyramidSolitaireTextualController {
+    /**
+     * The number of numbers which follow each command.
+     */
+    private static readonly COMMANDS: { [command: string]: number } = {
+        "rm1": 2,
+        "rm2": 4,
+        "rmwd": 3,
+        "dd": 1
+    };
+    private readonly input: NodeJS.ReadableStream;
+    private readonly output: NodeJS.WritableStream;
+    // the words read from the input which have not yet been used, and the start of an unfinished one
+    private words: Array<string> = new Array<string>();
+    private partialWord: string = "";
+    private ended: boolean = false;
+    private quit: boolean = false;
+    private wordWaiting: () => void = null;
+    private readonly dataListener: (chunk: any) => void;
+    private readonly endListener: () => void;
+
+    /**
+     * Constructs a PyramidSolitaireTextualController object which plays with the given streams.
+     * @param input the stream the player's commands are read from
+     * @param output the stream the game is written to
+     * @throws Error if either stream is null
+     */
+    constructor(input: NodeJS.ReadableStream, output: NodeJS.WritableStream) {
+        // Checks if the given streams are null.
+        if (input == null || output == null) {
+            throw new Error("The input and output cannot be null.");
+        }
+        this.input = input;
+        this.output = output;
+        this.dataListener = this.readChunk.bind(this);
+        this.endListener = this.readEnd.bind(this);
+    }
+
+    /**
+     * Plays a game of pyramid solitaire with the given deck and pyramid attributes on the given
+     * model, until the game is over, the player quits or the input runs out.
+     * @param model the game to be played
+     * @param deck the deck to be used in the game
+     * @param shuffle whether or not the deck should be shuffled prior to play
+     * @param numRows the number of rows in the pyramid
+     * @param numDraw the number of draw cards to be used
+     * @param options the optional settings of the game, such as the seed of the shuffle
+     * @return a promise resolved once the game has finished
+     * @throws Error if the model is null or the game cannot be started
+     */
+    async playGame(model: AbstractPyramidSolitaire, deck: Array<Card>, shuffle: boolean,
+                   numRows: number, numDraw: number, options: GameOptions = {}): Promise<void> {
+        // Checks if the given model is null.
+        if (model == null) {
+            throw new Error("The model cannot be null.");
+        }
+        model.startGame(deck, shuffle, numRows, numDraw, options);
+        const view: PyramidSolitaireTextualView = new PyramidSolitaireTextualView(model);
+
+        this.quit = false;
+        this.input.on("data", this.dataListener);
+        this.input.on("end", this.endListener);
+        this.input.resume();
+        try {
+            this.write(view.toString());
+            while (!model.isGameOver()) {
+                const command: string = await this.nextWord();
+                if (this.quit) {
+                    this.write("Game quit!\nState of game when quit:\n" + view.toString());
+                    return;
+                }
+                if (command == null) {
+                    return;
+                }
+                // Checks if the command is one of the known commands.
+                if (!PyramidSolitaireTextualController.COMMANDS.hasOwnProperty(command)) {
+                    this.write("Invalid move. Play again. Unknown command " + command + ".");
+                    continue;
+                }
+
+                // reads the numbers of the command, turning them into indices from 0
+                let args: Array<number> = new Array<number>();
+                while (args.length < PyramidSolitaireTextualController.COMMANDS[command]) {
+                    const arg: number = await this.nextNumber();
+                    if (arg == null) {
+                        break;
+                    }
+                    args.push(arg - 1);
+                }
+                if (this.quit) {
+                    this.write("Game quit!\nState of game when quit:\n" + view.toString());
+                    return;
+                }
+                if (args.length < PyramidSolitaireTextualController.COMMANDS[command]) {
+                    return;
+                }
+
+                try {
+                    PyramidSolitaireTextualController.makeMove(model, command, args);
+                } catch (error) {
+                    this.write("Invalid move. Play again. " + error.message);
+                    continue;
+                }
+                this.write(view.toString());
+            }
+            this.write(model.hasWon() ? "You win!" : "Game over. Score: " + model.getScore());
+        } finally {
+            this.input.removeListener("data", this.dataListener);
+            this.input.removeListener("end", this.endListener);
+            this.input.pause();
+        }
+    }
+
+    /**
+     * Makes the move of the given command on the given model.
+     * @param model the game being played
+     * @param command the command entered by the player
+     * @param args the numbers entered after the command, as indices from 0
+     * @throws Error if the model does not allow the move
+     */
+    private static makeMove(model: AbstractPyramidSolitaire, command: string, args: Array<number>): void {
+        switch (command) {
+            case "rm1":
+                model.remove(args[0], args[1]);
+                break;
+            case "rm2":
+                model.removeTwo(args[0], args[1], args[2], args[3]);
+                break;
+            case "rmwd":
+                model.removeUsingDraw(args[0], args[1], args[2]);
+                break;
+            case "dd":
+                model.discardDraw(args[0]);
+                break;
+        }
+    }
+
+    /**
+     * Reads the next number entered by the player, asking again for as long as the player enters
+     * something which is not a whole number.
+     * @return a promise of the number, or of null if the player quits or the input runs out
+     */
+    private async nextNumber(): Promise<number> {
+        let word: string = await this.nextWord();
+        while (word != null && !this.quit && !/^[+-]?\d+$/.test(word)) {
+            this.write("Invalid number " + word + ". Enter it again.");
+            word = await this.nextWord();
+        }
+        return word == null || this.quit ? null : parseInt(word, 10);
+    }
+
+    /**
+     * Reads the next word entered by the player, waiting for more input if there is none yet.
+     * Quitting is noted rather than returned as a word.
+     * @return a promise of the word, or of null if the player quits or the input runs out
+     */
+    private nextWord(): Promise<string> {
+        return new Promise<string>((resolve) => {
+            const check = () => {
+                if (this.words.length > 0) {
+                    const word: string = this.words.shift();
+                    this.quit = word === "q" || word === "Q";
+                    resolve(this.quit ? null : word);
+                } else if (this.ended) {
+                    resolve(null);
+                } else {
+                    this.wordWaiting = check;
+                }
+            };
+            check();
+        });
+    }
+
+    /**
+     * Splits the given chunk of input into words, keeping a word which may be continued in the next
+     * chunk until it is finished.
+     * @param chunk the chunk of input read
+     */
+    private readChunk(chunk: any): void {
+        const pieces: Array<string> = (this.partialWord + chunk.toString()).split(/\s+/);
+        this.partialWord = pieces.pop();
+        this.addWords(pieces);
+    }
+
+    /**
+     * Finishes the last word of the input once it has run out.
+     */
+    private readEnd(): void {
+        this.ended = true;
+        this.addWords([this.partialWord]);
+        this.partialWord = "";
+    }
+
+    /**
+     * Adds the given words to those read, and hands the first to a reader waiting for it.
+     * @param pieces the words read, which may include empty strings
+     */
+    private addWords(pieces: Array<string>): void {
+        this.words = this.words.concat(pieces.filter(function (piece) {
+            return piece.length > 0;
+        }));
+        const waiting: () => void = this.wordWaiting;
+        this.wordWaiting = null;
+        if (waiting != null) {
+            waiting();
+        }
+    }
+
+    /**
+     * Writes the given text to the output as a line of its own.
+     * @param text the text to be written
+     */
+    private write(text: string): void {
+        this.output.write(text + "\n");
+    }
+}
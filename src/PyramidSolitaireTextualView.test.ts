@@ -0,0 +1,40 @@
+import {BasicPyramidSolitaire} from "./BasicPyramidSolitaire";
+import {MultiPyramidSolitaire} from "./MultiPyramidSolitaire";
+import {PyramidSolitaireTextualView} from "./PyramidSolitaireTextualView";
+import {Card} from "./Card";
+import {Suit} from "./Suit";
+
+function deckStartingWith(model: BasicPyramidSolitaire, first: Array<Card>): Array<Card> {
+  const rest: Array<Card> = model.getDeck().filter(card => !first.some(other => other.equals(card)));
+  return first.concat(rest);
+}
+
+describe('PyramidSolitaireTextualView', () => {
+  test('a game which has not been started is empty', () => {
+    expect(new PyramidSolitaireTextualView(new BasicPyramidSolitaire()).toString()).toBe("");
+  });
+
+  test('rows are centered and removed cards are left blank', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    const view: PyramidSolitaireTextualView = new PyramidSolitaireTextualView(model);
+    // row 0: Q♥, row 1: A♥ K♥, draws: 10♠ 2♥
+    model.startGame(deckStartingWith(model, [new Card(Suit.HEART, 12), new Card(Suit.HEART, 1),
+      new Card(Suit.HEART, 13), new Card(Suit.SPADE, 10), new Card(Suit.HEART, 2)]), false, 2, 2);
+    expect(view.toString()).toBe("  Q♥\nA♥  K♥\nDraw: 10♠ 2♥\nScore: 26");
+
+    model.remove(1, 1);
+    expect(view.toString()).toBe("  Q♥\nA♥\nDraw: 10♠ 2♥\nScore: 13");
+  });
+
+  test('the gaps between pyramids are left blank', () => {
+    const model: MultiPyramidSolitaire = new MultiPyramidSolitaire();
+    model.startGame(model.getDeck(), false, 5, 1);
+    const deck: Array<Card> = model.getDeck();
+    const lines: Array<string> = new PyramidSolitaireTextualView(model).toString().split("\n");
+    expect(lines.length).toBe(7);
+    expect(lines[0]).toBe("        " + deck[0].toString().padEnd(3) + "     "
+      + deck[1].toString().padEnd(3) + "     " + deck[2].toString());
+    expect(lines[4]).toMatch(/^\S/);
+    expect(lines[5]).toBe("Draw: " + model.getDrawCards()[0].toString());
+  });
+});
@@ -0,0 +1,82 @@
+import {AbstractPyramidSolitaire} from "./AbstractPyramidSolitaire";
+import {Card} from "./Card";
+
+/**
+ * Represents a view of a game of pyramid solitaire as plain text, used for logging, bug reports,
+ * tests and playing in a terminal.
+ * <p>The text of a started game has one line for each row of the pyramid, then a line for the draw
+ * cards and a line for the score, separated by "\n" with no newline at the end:</p>
+ * <ul>
+ *   <li>Every position of a row is written as a cell three characters wide, holding the
+ *   {@link Card#toString} of its card padded with spaces on the right, or three spaces if the card
+ *   has been removed or no card is dealt there. Cells are separated by a single space.</li>
+ *   <li>Each row is indented by two spaces for every position it is narrower than the bottom row,
+ *   which centers it over the row below.</li>
+ *   <li>The draw line is {@code "Draw:"} followed by a space and the cell of each draw card.</li>
+ *   <li>The score line is {@code "Score: "} followed by the score.</li>
+ *   <li>Spaces at the end of a line are left out.</li>
+ * </ul>
+ * <p>For example, a game with two rows and two draw cards, after the K♥ has been removed:</p>
+ * <pre>
+ *   Q♥
+ * A♥
+ * Draw: 10♠ 2♥
+ * Score: 13
+ * </pre>
+ * <p>A game which has not been started is written as the empty string.</p>
+ */
+export class PyramidSolitaireTextualView {
+    /**
+     * The width of the cell a card is written in.
+     */
+    static readonly CELL_WIDTH: number = 3;
+    private readonly model: AbstractPyramidSolitaire;
+
+    /**
+     * Constructs a {@code PyramidSolitaireTextualView} object showing the given game.
+     *
+     * @param model the game to be shown
+     */
+    constructor(model: AbstractPyramidSolitaire) {
+        this.model = model;
+    }
+
+    /**
+     * Returns the text of the game in its current state, in the format described above.
+     *
+     * @return the game as text
+     */
+    toString(): string {
+        // Checks if the game has been started.
+        if (this.model.getNumRows() === -1) {
+            return "";
+        }
+
+        let lines: Array<string> = new Array<string>();
+        const pyramid: Array<Array<Card>> = this.model.getPyramid();
+        const bottomWidth: number = pyramid[pyramid.length - 1].length;
+        pyramid.forEach(function (row) {
+            let indent: string = " ".repeat((bottomWidth - row.length)
+                * (PyramidSolitaireTextualView.CELL_WIDTH + 1) / 2);
+            lines.push(indent + PyramidSolitaireTextualView.cells(row));
+        });
+        lines.push("Draw: " + PyramidSolitaireTextualView.cells(this.model.getDrawCards()));
+        lines.push("Score: " + this.model.getScoringPolicy().format(this.model.getScore()));
+
+        return lines.map(function (line) {
+            return line.replace(/\s+$/, "");
+        }).join("\n");
+    }
+
+    /**
+     * Returns the given cards written as cells separated by single spaces.
+     *
+     * @param cards the cards to be written, with null for a missing card
+     * @return the cells of the cards
+     */
+    private static cells(cards: Array<Card>): string {
+        return cards.map(function (card) {
+            return (card == null ? "" : card.toString()).padEnd(PyramidSolitaireTextualView.CELL_WIDTH);
+        }).join(" ");
+    }
+}
@@ -1,27 +1,68 @@
 import {Pos2D} from "./Pos2D";
 import {ViewCard} from "./ViewCard";
 import {Card} from "./Card";
-import {BasicPyramidSolitaire} from "./BasicPyramidSolitaire";
+import {AbstractPyramidSolitaire} from "./AbstractPyramidSolitaire";
 import {PyramidSolitaireVisualView} from "./PyramidSolitaireVisualView";
+import {GameOptions} from "./GameOptions";
+import {Move} from "./Move";
+import {MoveType} from "./MoveType";
+import {PyramidSolitaireSolver, SolverResult} from "./PyramidSolitaireSolver";
+import {SolverStatus} from "./SolverStatus";
+import {SavedGame} from "./SavedGame";
+import {GameStorage} from "./GameStorage";
+import {GameEvent, GameEventListener, GameStartedEvent, StateRestoredEvent} from "./GameEvent";
+import {GameEventType} from "./GameEventType";
+import {BoardLayout} from "./BoardLayout";
+import {PyramidSolitaireError} from "./PyramidSolitaireError";
+import {WrongSumError} from "./WrongSumError";
+import {ErrorCode} from "./ErrorCode";
+import {CardPosition} from "./CardPosition";
+import {PyramidSolitaireAnalyzer} from "./PyramidSolitaireAnalyzer";
 
 /**
  * Represents the controller for the visual version of pyramid solitaire.
  * Communicates between the view and the model to allow for the interactive playing of the game.
+ * The controller passes the player's moves to the model and keeps the view up to date by
+ * subscribing to the events of the model. It can also play a queue of moves for the player, one at
+ * a time with a pause between each, such as the safe moves played automatically after each move
+ * of the player when auto-play is on, or the only moves left when the game is finished for them.
  */
 export class PyramidSolitaireVisualController {
     private view: PyramidSolitaireVisualView;
-    private model: BasicPyramidSolitaire;
-    readonly CARD_WIDTH = 60;
-    readonly CARD_HEIGHT = 70;
+    private model: AbstractPyramidSolitaire;
+    readonly HINT_MAX_NODES = 20000;
+    readonly HINT_MAX_TIME_MS = 300;
+    readonly AUTO_PLAY_DELAY_MS = 400;
+
+    private readonly autoSave: boolean;
+    private readonly modelListener: GameEventListener;
+    // whether safe moves are played for the player, and the moves waiting to be played
+    private autoPlay: boolean;
+    private readonly queue: Array<Move>;
+    // the timer of the next move to be played, or null if none is waiting
+    private timer: number;
+    // whether the cards which can be played are marked in the view, and whether the game has been
+    // dealt, before which there is nothing to analyse
+    private assist: boolean;
+    private started: boolean;
 
     /**
      * Constructs a PyramidSolitaireVisualController object with the given view and model.
      * @param view the view
      * @param model the model
+     * @param autoSave whether the game and its recording are saved after every move
      */
-    constructor(view: PyramidSolitaireVisualView, model: BasicPyramidSolitaire) {
+    constructor(view: PyramidSolitaireVisualView, model: AbstractPyramidSolitaire, autoSave: boolean = true) {
         this.view = view;
         this.model = model;
+        this.autoSave = autoSave;
+        this.autoPlay = false;
+        this.queue = new Array<Move>();
+        this.timer = null;
+        this.assist = false;
+        this.started = false;
+        this.modelListener = this.modelChanged.bind(this);
+        this.model.subscribe(this.modelListener);
     }
 
     /**
@@ -30,48 +71,180 @@ export class PyramidSolitaireVisualController {
      * @param shuffle whether or not the deck should be shuffled prior to plau
      * @param numRows the number of rows in the given pyramid
      * @param numDraw the number of draw cards to be used
+     * @param options the optional settings of the game, such as the seed of the shuffle
+     */
+    playGame(deck: Array<Card>, shuffle: boolean, numRows: number, numDraw: number,
+             options: GameOptions = {}): void {
+        // starts the game in the model, which starts the interaction in the view once it is dealt
+        this.model.startGame(deck, shuffle, numRows, numDraw, options);
+    }
+
+    /**
+     * Resumes a visual game of pyramid solitaire from the given saved game.
+     * @param savedGame the saved game, as written by the model
+     * @throws Error if the saved game cannot be loaded by the model
+     */
+    resumeGame(savedGame: SavedGame): void {
+        this.model.fromJSON(savedGame);
+    }
+
+    /**
+     * Sets whether the cards which can be played are marked in the view. They are only looked for
+     * while they are marked, since finding them means finding every legal move.
+     * @param assist whether the playable cards are marked
+     */
+    setAssist(assist: boolean): void {
+        this.assist = assist;
+        if (this.started) {
+            this.updatePlayable();
+            this.updateAutoFinish();
+        }
+        this.view.setAssist(assist);
+    }
+
+    /**
+     * Stops this controller from following the model, so that the model can no longer change the
+     * view or save anything through it.
+     */
+    dispose(): void {
+        this.model.unsubscribe(this.modelListener);
+        this.cancelMoves();
+    }
+
+    /**
+     * Sets whether the safe moves of the game, such as removing exposed Kings, are played
+     * automatically after each move of the player, and plays them straight away if they are.
+     * @param autoPlay whether safe moves are played automatically
      */
-    playGame(deck: Array<Card>, shuffle: boolean, numRows: number, numDraw: number): void {
-        // starts the game in the model and starts the interaction in the view
-        this.model.startGame(deck, shuffle, numRows, numDraw);
-        console.log(this.model.getPyramid().length);
+    setAutoPlay(autoPlay: boolean): void {
+        this.autoPlay = autoPlay;
+        if (autoPlay) {
+            this.scheduleNext();
+        } else {
+            this.cancelMoves();
+        }
+        if (this.started) {
+            this.updateAutoFinish();
+            this.view.refresh();
+        }
+    }
+
+    /**
+     * Plays the only moves left in the game, if there is no choice left to be made, one at a time,
+     * or tells the player that there is.
+     */
+    autoFinish(): void {
+        this.cancelMoves();
+        const moves: Array<Move> = PyramidSolitaireAnalyzer.forcedSequence(this.model);
+        if (moves != null) {
+            moves.forEach((move) => this.queue.push(move));
+            this.scheduleNext();
+        } else {
+            this.view.showError("The game cannot be finished for you yet", []);
+            this.view.refresh();
+        }
+    }
+
+    /**
+     * Updates the view to show the given event of the model.
+     * @param event the event which has happened in the model
+     */
+    private modelChanged(event: GameEvent): void {
+        switch (event.type) {
+            case GameEventType.GAME_STARTED:
+                this.beginGame(event);
+                break;
+            case GameEventType.CARDS_REMOVED:
+                // makes the cards removed from the pyramid invisible, draw cards being replenished
+                const positions: Array<Pos2D> = this.positionsOf(event.move);
+                for (let index = 0; index < positions.length; index++) {
+                    this.view.makeInvisible(positions[index]);
+                }
+                break;
+            case GameEventType.DRAW_REPLENISHED:
+                this.view.replaceDraw(event.drawIndex, this.labelOf(event.card));
+                this.view.updateStock(event.stockSize, event.wasteSize, event.redealsLeft);
+                break;
+            case GameEventType.SCORE_CHANGED:
+                this.view.updateScore(event.score, this.model.hasWon());
+                break;
+            case GameEventType.STATE_RESTORED:
+                this.restoreView(event);
+                break;
+            case GameEventType.GAME_OVER:
+                if (event.won) {
+                    this.view.celebrate();
+                }
+                break;
+        }
+    }
 
+    /**
+     * Starts the interaction in the view, lays out the board for the size of the pyramid and the
+     * draw pile, and creates viewCards for every position in the pyramid and the draw pile of the
+     * game which has just started, hiding the positions which are empty. The gaps between the cards
+     * of a row, where no card is ever dealt, are given no viewCard.
+     * @param event the start of the game
+     */
+    private beginGame(event: GameStartedEvent): void {
+        this.started = true;
         this.view.beginInteraction(this);
+        this.view.updateLegend(event.deckSpec.values, event.removalValue);
+        this.view.setScoringPolicy(this.model.getScoringPolicy());
+
+        const pyramid: Array<Array<Card>> = event.pyramid;
+        const drawCards: Array<Card> = event.draws;
+        const layout: BoardLayout = new BoardLayout(pyramid.length, pyramid[pyramid.length - 1].length,
+            drawCards.length);
+        this.view.setLayout(layout);
 
         // creates viewCards for every card in the model
-        const pyramid: Array<Array<Card>>  = this.model.getPyramid(); // is const okay
-        console.log(pyramid);
         for (let row = 0; row < pyramid.length; row++) {
             for (let col = 0; col < pyramid[row].length; col++) {
-               // console.log(row +" "+ col);
-               this.view.drawCard(
-                   this.createPyramidViewCard(pyramid[row][col].toString(), row, col, pyramid.length));
-
+                if (this.model.isLayoutPosition(row, col)) {
+                    this.view.drawCard(new ViewCard(layout.getPyramidCard(row, col, pyramid[row].length),
+                        new Pos2D(row, col), this.labelOf(pyramid[row][col]) || "", false));
+                }
             }
         }
 
-        const drawCards: Array<Card> = this.model.getDrawCards();
-
         // creates viewCards for every drawCard in the model
         for (let index = 0; index < drawCards.length; index++) {
-           this.view.drawCard(this.createDrawViewCard(drawCards[index].toString(), index));
+           this.view.drawCard(new ViewCard(layout.getDrawCard(index), new Pos2D(index, -1),
+               this.labelOf(drawCards[index]) || "", true));
         }
-        // updates the score and refreshes the view.
-        this.view.updateScore(this.model.getScore());
-        this.view.refresh();
-
-
+        // hides the empty positions, updates the score and refreshes the view.
+        this.restoreView(event);
+        this.scheduleNext();
     }
 
     /**
      * Removes the cards in the pyramid with the given positions if possible.
      * @param cardPositions the positions of the cards being attempted to be removed
+     * @return whether the cards were removed
+     */
+    removeSelected(cardPositions: Array<Pos2D>): boolean {
+        // the player's own move takes the place of any moves waiting to be played for them
+        this.cancelMoves();
+        const removed: boolean = this.removeCards(cardPositions);
+        this.scheduleNext();
+        return removed;
+    }
+
+    /**
+     * Removes the cards with the given positions if possible, updating the view and saving the
+     * game.
+     * @param cardPositions the positions of the cards being attempted to be removed
+     * @return whether the cards were removed
      */
-    removeSelected(cardPositions: Array<Pos2D>): void {
+    private removeCards(cardPositions: Array<Pos2D>): boolean {
+        let removed: boolean = false;
+        this.view.clearHint();
+        this.view.clearMessage();
         if (this.validCards(cardPositions)) {
 
             if (cardPositions.length == 1 && this.containsDrawCard(cardPositions)) {
-                this.discardDraw(cardPositions);
+                removed = this.discardDraw(cardPositions);
             } else {
 
                 try {
@@ -80,63 +253,281 @@ export class PyramidSolitaireVisualController {
                     } else {
                         this.removeWithoutDraw(cardPositions);
                     }
-
-                    // makes the cards removed from the pyramid invisible
-                    for (let index = 0 ; index < cardPositions.length ; index++) {
-                        this.view.makeInvisible(cardPositions[index]);
-                    }
+                    removed = true;
                 } catch (e) {
-                    // deselects the cards if they cannot be removed
+                    // deselects the cards if they cannot be removed, and tells the player why
                     this.view.deselect(cardPositions);
-
+                    this.explainError(e);
                 }
             }
         } else {
             // deselects the cards if they are an invalid pairing (2 draw cards)
             this.view.deselect(cardPositions);
         }
-        // updates the score and refreshes the view
-        this.view.updateScore(this.model.getScore());
+        // the events of the model have updated the cards, the score and the stock
+        this.view.updateHistoryButtons(this.model.canUndo(), this.model.canRedo());
+        this.updatePlayable();
+        this.updateAutoFinish();
         this.view.refresh();
+        this.save();
+        return removed;
+    }
+
+    /**
+     * Returns whether the card at the given position may be selected by the player, following the
+     * rules of the game being played. Draw cards can always be selected.
+     * @param pyramidPos the position of the card, with the index of a draw card and -1 for draw cards
+     * @param isDrawCard whether the card is a drawCard
+     * @return whether the card can be selected
+     */
+    canSelect(pyramidPos: Pos2D, isDrawCard: boolean): boolean {
+        return isDrawCard || this.model.canBeSelected(pyramidPos.getX(), pyramidPos.getY());
+    }
+
+    /**
+     * Makes the given move with the cards it names, updating the view exactly as if the player had
+     * selected those cards and removed them.
+     * @param move the move to be made
+     * @return whether the move was made
+     */
+    applyMove(move: Move): boolean {
+        return this.removeSelected(this.positionsOf(move));
     }
 
     /**
-     * Creates and returns a view card representing a card in the pyramid of the game at the given row
-     * col index with the given label within a pyramid of the given height.
+     * Undoes the last move of the game, if there is one, which redraws the restored game.
+     */
+    undo(): void {
+        this.cancelMoves();
+        this.view.clearMessage();
+        if (this.model.canUndo()) {
+            this.model.undo();
+            this.save();
+        }
+    }
+
+    /**
+     * Makes the last undone move of the game again, if there is one, which redraws the game.
+     */
+    redo(): void {
+        this.cancelMoves();
+        this.view.clearMessage();
+        if (this.model.canRedo()) {
+            this.model.redo();
+            this.save();
+        }
+    }
+
+    /**
+     * Highlights a suggested move in the view. A move from a winning sequence is suggested if the
+     * solver can find one quickly, otherwise the first legal move.
+     */
+    hint(): void {
+        const move: Move = this.suggestMove();
+        if (move == null) {
+            this.view.clearHint();
+            this.view.printMessage("No moves left.");
+        } else {
+            this.view.clearMessage();
+            this.view.showHint(this.positionsOf(move));
+            this.view.refresh();
+        }
+    }
+
+    /**
+     * Returns the move to be suggested to the player, or null if there are no moves left.
      *
-     * @param label         the label of the card to be created
-     * @param row           the row of the card the returned view card is representing
-     * @param col           the column of the card the returned view card is representing
-     * @param pyramidHeight the height of the pyramid in which the view card is being created (in rows)
-     * @return a view card representing a card with the given attributes within a pyramid of the given height.
+     * @return the suggested move, or null
      */
-    private createPyramidViewCard(label: String, row: number, col: number, pyramidHeight: number): ViewCard {
-        return new ViewCard(new Pos2D((this.CARD_WIDTH + 5) * (col) + this.xOffset(row, pyramidHeight),
-            (this.CARD_HEIGHT - 10) * (row ) + 20), new Pos2D(row, col), <string>label, false);
+    private suggestMove(): Move {
+        const result: SolverResult = new PyramidSolitaireSolver(
+            {maxNodes: this.HINT_MAX_NODES, maxTimeMs: this.HINT_MAX_TIME_MS}).solve(this.model);
+        if (result.status === SolverStatus.WINNABLE && result.moves.length > 0) {
+            return result.moves[0];
+        }
+        const moves: Array<Move> = this.model.getLegalMoves();
+        return moves.length > 0 ? moves[0] : null;
     }
 
     /**
-     * Creates and returns a view card to represent a card in the draw pile with the given label and
-     * index.
+     * Returns the positions of the view cards used by the given move, draw cards being at the
+     * position of their index and -1.
      *
-     * @param label the label of the card to be created
-     * @param index the index of the card to be created
-     * @return the view card with the given attributes to represent a draw card.
+     * @param move the move whose cards are being found
+     * @return the positions of the cards of the move
+     */
+    private positionsOf(move: Move): Array<Pos2D> {
+        switch (move.type) {
+            case MoveType.REMOVE:
+                return [new Pos2D(move.row, move.card)];
+            case MoveType.REMOVE_TWO:
+                return [new Pos2D(move.row1, move.card1), new Pos2D(move.row2, move.card2)];
+            case MoveType.REMOVE_USING_DRAW:
+                return [new Pos2D(move.drawIndex, -1), new Pos2D(move.row, move.card)];
+            case MoveType.DISCARD_DRAW:
+                return [new Pos2D(move.drawIndex, -1)];
+        }
+    }
+
+    /**
+     * Rebuilds the visibility and labels of every view card from the given state of the model,
+     * clearing any selection, then updates the score and the stock, and refreshes the view.
+     * @param state the state of the model, as it was started or restored
+     */
+    private restoreView(state: GameStartedEvent | StateRestoredEvent): void {
+        this.view.clearSelection();
+        this.view.clearHint();
+
+        // shows the cards still in the pyramid and hides the removed ones
+        const pyramid: Array<Array<Card>> = state.pyramid;
+        for (let row = 0; row < pyramid.length; row++) {
+            for (let col = 0; col < pyramid[row].length; col++) {
+                this.view.updateCard(new Pos2D(row, col), false, this.labelOf(pyramid[row][col]));
+            }
+        }
+
+        // relabels the draw cards, hiding the ones which are empty
+        const drawCards: Array<Card> = state.draws;
+        for (let index = 0; index < drawCards.length; index++) {
+            this.view.updateCard(new Pos2D(index, -1), true, this.labelOf(drawCards[index]));
+        }
+
+        this.view.updateScore(state.score, this.model.hasWon());
+        this.view.updateStock(state.stockSize, state.wasteSize, state.redealsLeft);
+        this.view.updateHistoryButtons(this.model.canUndo(), this.model.canRedo());
+        this.updatePlayable();
+        this.updateAutoFinish();
+        this.view.refresh();
+    }
+
+    /**
+     * Plays the next move waiting to be played after a pause, or the next safe move if none is
+     * waiting and auto-play is on, unless a move is already waiting for its pause to end.
      */
-    private createDrawViewCard(label: String, index: number): ViewCard {
-        return new ViewCard(new Pos2D(index * (this.CARD_WIDTH + 5) + 20,
-            515), new Pos2D(index, -1), <string>label, true);
+    private scheduleNext(): void {
+        if (this.timer != null || !this.started) {
+            return;
+        }
+        if (this.queue.length === 0 && this.autoPlay) {
+            const safeMoves: Array<Move> = PyramidSolitaireAnalyzer.safeMoves(this.model);
+            if (safeMoves.length > 0) {
+                this.queue.push(safeMoves[0]);
+            }
+        }
+        if (this.queue.length > 0) {
+            this.timer = window.setTimeout(() => {
+                this.timer = null;
+                // the move is made as if the player had selected its cards and nothing else
+                this.view.clearSelection();
+                this.removeCards(this.positionsOf(this.queue.shift()));
+                this.scheduleNext();
+            }, this.AUTO_PLAY_DELAY_MS);
+        }
+    }
+
+    /**
+     * Forgets the moves waiting to be played, and stops the next one from being played.
+     */
+    private cancelMoves(): void {
+        this.queue.length = 0;
+        if (this.timer != null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Saves the game and its recording, unless this controller does not save automatically.
+     */
+    private save(): void {
+        if (this.autoSave) {
+            GameStorage.save(this.model);
+            GameStorage.saveRecording(this.model.getRecording());
+        }
+    }
+
+    /**
+     * Shows the player why their move was refused by the model and flashes the cards which stopped
+     * it. Errors which are not about the move itself are not shown.
+     *
+     * @param error the error thrown by the model
+     */
+    private explainError(error: unknown): void {
+        if (!(error instanceof PyramidSolitaireError)) {
+            return;
+        }
+        this.view.showError(this.explanationOf(error), error.positions.map(PyramidSolitaireVisualController.pos2DOf));
+    }
+
+    /**
+     * Tells the view which cards can be played, for it to mark, if the player is being assisted.
+     */
+    private updatePlayable(): void {
+        this.view.updatePlayable(!this.assist ? []
+            : this.model.getPlayablePositions().map(PyramidSolitaireVisualController.pos2DOf));
+    }
+
+    /**
+     * Tells the view whether the game can be finished for the player. Finding out means analysing
+     * the rest of the game, so it is only done while the player is assisted or moves are played for
+     * them, the Auto-finish button being left enabled otherwise.
+     */
+    private updateAutoFinish(): void {
+        this.view.updateAutoFinishButton((!this.assist && !this.autoPlay)
+            || PyramidSolitaireAnalyzer.forcedSequence(this.model) != null);
+    }
+
+    /**
+     * Returns the position the view gives the card with the given position in the model.
+     *
+     * @param position the position of the card in the model
+     * @return the position of the card in the view
+     */
+    private static pos2DOf(position: CardPosition): Pos2D {
+        // draw cards are found by their index in the draw pile, and -1
+        return position.row === -1 ? new Pos2D(position.card, -1) : new Pos2D(position.row, position.card);
+    }
+
+    /**
+     * Returns a short explanation of the given error for the player, such as
+     * {@code "7♥ + 5♠ = 12, need 13"}.
+     *
+     * @param error the error thrown by the model
+     * @return the explanation of the error
+     */
+    private explanationOf(error: PyramidSolitaireError): string {
+        switch (error.code) {
+            case ErrorCode.WRONG_SUM:
+                const wrongSum: WrongSumError = error as WrongSumError;
+                return wrongSum.cards.map(this.labelOf).join(" + ") + " = " + wrongSum.getSum()
+                    + ", need " + wrongSum.removalValue;
+            case ErrorCode.SAME_CARD:
+                return "A card cannot be paired with itself";
+            case ErrorCode.CARD_COVERED:
+                const labels: Array<string> = error.positions.map((position) => {
+                    return this.labelOf(this.model.getCardAt(position.row, position.card));
+                });
+                return labels.join(" and ") + (labels.length > 1 ? " are" : " is")
+                    + " covered by the cards below";
+            case ErrorCode.EMPTY_POSITION:
+                return "There is no card there";
+            case ErrorCode.OUT_OF_BOUNDS:
+                return "That card is not on the table";
+            case ErrorCode.GAME_NOT_STARTED:
+                return "The game has not started yet";
+            default:
+                return error.message;
+        }
     }
 
     /**
-     * Returns the offset in the x plane to be used when positioning cards in the pyramid for the screen position.
+     * Returns the label of the given card, or null if there is no card.
      *
-     * @param row           the row of the card being positioned
-     * @param pyramidHeight the height of the pyramid in rows
-     * @return the xOffset to be using in positioning a card in the given row in a pyramid of the given height.
+     * @param card the card being labeled
+     * @return the label of the given card, or null
      */
-    private xOffset(row: number, pyramidHeight: number): number {
-        return (pyramidHeight - row - 1) * (this.CARD_WIDTH + 5) / 2 + 115;
+    private labelOf(card: Card): string {
+        return card == null ? null : card.toString();
     }
 
     /**
@@ -172,21 +563,24 @@ export class PyramidSolitaireVisualController {
     }
 
     /**
-     * Discards a drawCard in the model and updates the view.
+     * Discards a drawCard in the model, which updates the view.
      *
      * @param cardPositions the given positions of the drawCard.
+     * @return whether the drawCard was discarded
      */
-    private discardDraw(cardPositions: Array<Pos2D>): void {
+    private discardDraw(cardPositions: Array<Pos2D>): boolean {
         try {
             this.model.discardDraw(cardPositions[0].getX());
+            return true;
         } catch (e) {
             this.view.deselect(cardPositions);
+            this.explainError(e);
+            return false;
         }
-        this.view.updateDraws(cardPositions[0], this.model.getDrawCards());
     }
 
     /**
-     * Discards the given cards including a drawCard and updates the view.
+     * Discards the given cards including a drawCard in the model, which updates the view.
      *
      * @param cardPositions the given positions of the cards to be discarded.
      */
@@ -203,12 +597,11 @@ export class PyramidSolitaireVisualController {
         }
 
             this.model.removeUsingDraw(drawCard.getX(), nonDrawCard.getX(), nonDrawCard.getY());
-            this.view.updateDraws(drawCard, this.model.getDrawCards());
 
     }
 
     /**
-     * Discards the given cards not including a drawCard and updates the view.
+     * Discards the given cards not including a drawCard in the model, which updates the view.
      *
      * @param cardPositions the given positions of the cards to be discarded.
      */
@@ -0,0 +1,194 @@
+import {BasicPyramidSolitaire} from "./BasicPyramidSolitaire";
+import {Card} from "./Card";
+import {Suit} from "./Suit";
+import {MoveType} from "./MoveType";
+import {GameSession} from "./GameSession";
+import {PyramidSolitaireVisualView} from "./PyramidSolitaireVisualView";
+import {BoardLayout} from "./BoardLayout";
+import {Pos2D} from "./Pos2D";
+import {Themes} from "./Themes";
+import {VegasScoring} from "./VegasScoring";
+import {PyramidSolitaireAnalyzer} from "./PyramidSolitaireAnalyzer";
+import {createView, ignoringContext} from "./testUtils";
+
+function pressKey(key: string, target: EventTarget = document.body, modifiers: KeyboardEventInit = {}): void {
+  target.dispatchEvent(new KeyboardEvent("keydown", {...modifiers, key: key, bubbles: true}));
+}
+
+// the board of the game below, which is drawn at its own size since jsdom gives the page no width
+const LAYOUT: BoardLayout = new BoardLayout(2, 2, 2);
+
+function centreOf(corner: Pos2D): Pos2D {
+  return new Pos2D(corner.getX() + BoardLayout.CARD_WIDTH / 2, corner.getY() + BoardLayout.CARD_HEIGHT / 2);
+}
+
+// presses the mouse at the given position of the board and releases it at the other
+function drag(from: Pos2D, to: Pos2D): void {
+  document.getElementById("myCanvas").dispatchEvent(new MouseEvent("mousedown",
+    {button: 0, clientX: from.getX(), clientY: from.getY(), bubbles: true}));
+  document.dispatchEvent(new MouseEvent("mousemove", {clientX: to.getX(), clientY: to.getY()}));
+  document.dispatchEvent(new MouseEvent("mouseup", {button: 0, clientX: to.getX(), clientY: to.getY()}));
+}
+
+describe('PyramidSolitaireVisualView', () => {
+  let model: BasicPyramidSolitaire;
+  let view: PyramidSolitaireVisualView;
+  let session: GameSession;
+  // the colour of every rectangle filled on the canvas
+  let fills: Array<unknown>;
+
+  beforeEach(() => {
+    fills = [];
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => ignoringContext(
+      (name: string, args: Array<unknown>, properties: Record<string, unknown>) => {
+        if (name === "fillRect") {
+          fills.push(properties.fillStyle);
+        }
+      }));
+    model = new BasicPyramidSolitaire();
+    view = createView();
+    // row 0: A♥, row 1: K♥ Q♥, draws: A♠ 2♥
+    const first: Array<Card> = [new Card(Suit.HEART, 1), new Card(Suit.HEART, 13),
+      new Card(Suit.HEART, 12), new Card(Suit.SPADE, 1), new Card(Suit.HEART, 2)];
+    session = new GameSession(model, view, false);
+    session.start(
+      first.concat(model.getDeck().filter(card => !first.some(other => other.equals(card)))), false, 2, 2);
+  });
+
+  afterEach(() => {
+    session.dispose();
+    jest.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  test('plays from the keyboard, moving the focus over the cards which can be selected', () => {
+    // the focus starts on the K♥, the first card which is not covered
+    pressKey("ArrowRight");
+    pressKey(" ");
+    pressKey("r");
+    expect(model.getCardAt(1, 0)).toBeNull();
+
+    pressKey("ArrowDown");
+    pressKey("d");
+    expect(model.getRecording().moves.map(recordedMove => recordedMove.move.type))
+      .toEqual([MoveType.REMOVE, MoveType.DISCARD_DRAW]);
+
+    pressKey("z", document.body, {ctrlKey: true});
+    expect(model.getRecording().moves.map(recordedMove => recordedMove.move.type)).toEqual([MoveType.REMOVE]);
+
+    const newGame: jest.Mock = jest.fn();
+    document.getElementById("shuffleButton").addEventListener("click", newGame);
+    pressKey("n");
+    expect(newGame).toHaveBeenCalledTimes(1);
+  });
+
+  test('leaves keys typed into the fields of the page alone, even to undo', () => {
+    const input: HTMLInputElement = document.body.appendChild(document.createElement("input"));
+    pressKey("ArrowRight");
+    pressKey(" ");
+    pressKey("r", input);
+    expect(model.getCardAt(1, 0)).not.toBeNull();
+
+    pressKey("r");
+    pressKey("z", input, {ctrlKey: true});
+    pressKey("z", input, {metaKey: true});
+    expect(model.getCardAt(1, 0)).toBeNull();
+  });
+
+  test('removes a card dragged onto another card if they add up to the removal value', () => {
+    // A♠ onto Q♥
+    drag(centreOf(LAYOUT.getDrawCard(0)), centreOf(LAYOUT.getPyramidCard(1, 1, 2)));
+    expect(model.getCardAt(1, 1)).toBeNull();
+    expect(model.getRecording().moves.map(recordedMove => recordedMove.move.type))
+      .toEqual([MoveType.REMOVE_USING_DRAW]);
+  });
+
+  test('removes a card dragged onto the discard zone by itself', () => {
+    drag(centreOf(LAYOUT.getPyramidCard(1, 0, 2)), centreOf(LAYOUT.getDiscardZone()));
+    drag(centreOf(LAYOUT.getDrawCard(1)), centreOf(LAYOUT.getDiscardZone()));
+    expect(model.getCardAt(1, 0)).toBeNull();
+    expect(model.getRecording().moves.map(recordedMove => recordedMove.move.type))
+      .toEqual([MoveType.REMOVE, MoveType.DISCARD_DRAW]);
+  });
+
+  test('puts back a card dropped where it cannot be removed', () => {
+    // 2♥ onto Q♥, onto the covered A♥ and onto the empty table
+    drag(centreOf(LAYOUT.getDrawCard(1)), centreOf(LAYOUT.getPyramidCard(1, 1, 2)));
+    drag(centreOf(LAYOUT.getDrawCard(1)), new Pos2D(LAYOUT.getPyramidCard(0, 0, 1).getX() + 30,
+      LAYOUT.getPyramidCard(0, 0, 1).getY() + 5));
+    drag(centreOf(LAYOUT.getDrawCard(1)), new Pos2D(LAYOUT.getWidth() - 5, LAYOUT.getHeight() - 5));
+    expect(model.getRecording().moves).toEqual([]);
+
+    // the card can still be dragged from where it was dealt
+    drag(centreOf(LAYOUT.getDrawCard(1)), centreOf(LAYOUT.getDiscardZone()));
+    expect(model.getRecording().moves.length).toBe(1);
+  });
+
+  test('selects a card which is pressed and released without being dragged', () => {
+    const kingCentre: Pos2D = centreOf(LAYOUT.getPyramidCard(1, 0, 2));
+    drag(kingCentre, new Pos2D(kingCentre.getX() + 1, kingCentre.getY() + 1));
+    expect(model.getCardAt(1, 0)).not.toBeNull();
+    document.getElementById("removeButton").click();
+    expect(model.getCardAt(1, 0)).toBeNull();
+  });
+
+  test('only finishes the animations for the keys which play cards', () => {
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation(() => 42);
+    const cancelled: jest.SpyInstance = jest.spyOn(window, 'cancelAnimationFrame');
+    // the discarded draw card flies off while the next one slides in
+    model.discardDraw(0);
+    pressKey("x");
+    pressKey("ArrowRight");
+    expect(cancelled).not.toHaveBeenCalled();
+    pressKey("r");
+    expect(cancelled).toHaveBeenCalledWith(42);
+  });
+
+  test('repaints the table and the cards in the theme it is switched to', () => {
+    fills.length = 0;
+    view.setTheme(Themes.MIDNIGHT, false);
+    // the table is filled first, and the cards are filled with their faces
+    expect(fills[0]).toBe(Themes.MIDNIGHT.table);
+    expect(fills).toContain(Themes.MIDNIGHT.cardFace);
+    expect(fills).not.toContain(Themes.CLASSIC.table);
+  });
+
+  test('explains the scoring of the game being played in the rules', () => {
+    const alert: jest.SpyInstance = jest.spyOn(window, 'alert').mockImplementation(() => undefined);
+    document.getElementById("rulesButton").click();
+    expect(alert.mock.calls[0][0]).toContain("A score of zero wins the game.");
+
+    view.setScoringPolicy(new VegasScoring());
+    document.getElementById("rulesButton").click();
+    expect(alert.mock.calls[1][0]).toContain(new VegasScoring().description);
+    expect(alert.mock.calls[1][0]).not.toContain("A score of zero");
+  });
+
+  test('only looks for the cards which can be played while they are marked', () => {
+    const playable: jest.SpyInstance = jest.spyOn(model, 'getPlayablePositions');
+    pressKey("ArrowRight");
+    pressKey(" ");
+    pressKey("r");
+    expect(playable).not.toHaveBeenCalled();
+
+    session.getController().setAssist(true);
+    expect(playable).toHaveBeenCalledTimes(1);
+    pressKey("z", document.body, {ctrlKey: true});
+    expect(playable).toHaveBeenCalledTimes(2);
+  });
+
+  test('only finds out whether the game can be finished while the player is helped', () => {
+    const forced: jest.SpyInstance = jest.spyOn(PyramidSolitaireAnalyzer, 'forcedSequence');
+    pressKey("ArrowRight");
+    pressKey(" ");
+    pressKey("r");
+    expect(forced).not.toHaveBeenCalled();
+    expect(document.getElementById("autoFinishButton")).toBeEnabled();
+
+    session.getController().setAssist(true);
+    expect(forced).toHaveBeenCalledTimes(1);
+    expect(document.getElementById("autoFinishButton")).toBeDisabled();
+    session.getController().setAssist(false);
+    expect(document.getElementById("autoFinishButton")).toBeEnabled();
+  });
+});
@@ -2,6 +2,15 @@ import {ViewCard} from "./ViewCard";
 import {PyramidSolitaireVisualController} from "./PyramidSolitaireVisualController";
 import {Card} from "./Card";
 import {Pos2D} from "./Pos2D";
+import {DragState} from "./DragState";
+import {PyramidSolitaireAnimator} from "./PyramidSolitaireAnimator";
+import {AnimationOptions} from "./AnimationOptions";
+import {BoardLayout} from "./BoardLayout";
+import {CardFaces} from "./CardFaces";
+import {Theme} from "./Theme";
+import {Themes} from "./Themes";
+import {ScoringPolicy} from "./ScoringPolicy";
+import {PyramidSumScoring} from "./PyramidSumScoring";
 
 
 
@@ -15,27 +24,126 @@ export class PyramidSolitaireVisualView {
     selected: number;
     drawsSelected: number;
     private score: number;
+    // whether the game has been won, and how its score is written
+    private won: boolean;
+    private scoring: ScoringPolicy;
+    private stockSize: number;
+    private wasteSize: number;
+    private redealsLeft: number;
+    // the message shown on the table, or null if there is none
+    private message: string;
+    private faceValues: Array<number>;
+    private removalValue: number;
     private readonly cards: Array<ViewCard>;
+    private readonly undoButton: HTMLButtonElement;
+    private readonly redoButton: HTMLButtonElement;
+    private readonly autoFinishButton: HTMLButtonElement;
+    private readonly newGameButton: HTMLElement;
+    // the card with the keyboard focus, or null if the arrow keys have not been used yet
+    private focused: ViewCard;
+    private interactive: boolean;
+    // whether the playable cards are marked, and the positions of the cards which are playable
+    private assist: boolean;
+    private playable: Array<Pos2D>;
+    // the state of the mouse, the card pressed or dragged and where the mouse was pressed
+    private dragState: DragState;
+    private dragCard: ViewCard;
+    private dragStart: Pos2D;
+    readonly DRAG_THRESHOLD = 5;
+    private readonly animator: PyramidSolitaireAnimator;
+    // where everything is drawn on the board, and how many pixels of the canvas make up each pixel
+    // of the screen
+    private layout: BoardLayout;
+    private pixelRatio: number;
+    // the way the table and the cards are drawn
+    private readonly faces: CardFaces;
+    // the listeners this view added to the page, and whether they have been removed for good
+    private readonly listeners: Array<[EventTarget, string, EventListener]>;
+    private disposed: boolean;
      manager = this;
 
     /**
      * Creates a PyramidSolitaireVisualView object with the given canvasRenderingContext for rendering.
+     * The new game button is clicked when the player asks for a new deal from the keyboard.
      */
-    constructor(canvas: HTMLElement, removeButton: HTMLElement, rulesButton: HTMLElement) {
+    constructor(canvas: HTMLElement, removeButton: HTMLElement, rulesButton: HTMLElement,
+                undoButton: HTMLElement, redoButton: HTMLElement, hintButton: HTMLElement,
+                newGameButton: HTMLElement, autoFinishButton: HTMLElement) {
         this.selected = 0;
         this.drawsSelected = 0;
         this.score = 0;
+        this.won = false;
+        this.scoring = new PyramidSumScoring();
+        this.stockSize = 0;
+        this.wasteSize = 0;
+        this.redealsLeft = 0;
+        this.message = null;
+        this.faceValues = [13, 12, 11];
+        this.removalValue = 13;
+        this.interactive = true;
+        this.assist = false;
+        this.playable = new Array<Pos2D>();
+        this.focused = null;
+        this.dragState = DragState.IDLE;
+        this.dragCard = null;
+        this.dragStart = null;
+        this.animator = new PyramidSolitaireAnimator(this.refresh.bind(this));
+        this.layout = new BoardLayout(7, 7, 3);
+        this.pixelRatio = 1;
+        this.faces = new CardFaces(Themes.CLASSIC, false, this.refresh.bind(this));
         this.canvas = <HTMLCanvasElement> canvas;
         this.cards = new Array<ViewCard>();
         const canvas2: HTMLCanvasElement = <HTMLCanvasElement> canvas;
         const ctx = canvas2.getContext("2d");
         this.context = ctx;
-        // adding click action listener
-        canvas.addEventListener('click', this.mouseListener.bind(this), false);
+        this.listeners = new Array<[EventTarget, string, EventListener]>();
+        this.disposed = false;
+        // adding the mouse listeners, which follow a drag outside of the canvas until it is released
+        this.listen(canvas, 'mousedown', this.mousePressed.bind(this) as EventListener);
+        this.listen(document, 'mousemove', this.mouseMoved.bind(this) as EventListener);
+        this.listen(document, 'mouseup', this.mouseReleased.bind(this) as EventListener);
         // adds button action listeners
-        removeButton.addEventListener('click', this.removeButtonActionListener.bind(this), false);
-        rulesButton.addEventListener('click', this.rulesButtonActionListener, false);
+        this.listen(removeButton, 'click', this.removeButtonActionListener.bind(this));
+        this.listen(rulesButton, 'click', this.rulesButtonActionListener.bind(this));
+        this.undoButton = undoButton as HTMLButtonElement;
+        this.redoButton = redoButton as HTMLButtonElement;
+        this.listen(undoButton, 'click', this.undoButtonActionListener.bind(this));
+        this.listen(redoButton, 'click', this.redoButtonActionListener.bind(this));
+        this.listen(hintButton, 'click', this.hintButtonActionListener.bind(this));
+        this.autoFinishButton = autoFinishButton as HTMLButtonElement;
+        this.listen(autoFinishButton, 'click', this.autoFinishButtonActionListener.bind(this));
+        this.newGameButton = newGameButton;
+        // adds the keyboard controls and the undo and redo keyboard shortcuts
+        this.listen(document, 'keydown', this.keyListener.bind(this) as EventListener);
+        // sizes the canvas again whenever the window changes size or moves to another screen
+        this.listen(window, 'resize', this.resize.bind(this));
+    }
+
+    /**
+     * Adds the given listener to the given target, remembering it so that it is removed when this
+     * view is disposed.
+     * @param target   the element, document or window listened to
+     * @param type     the kind of event listened for
+     * @param listener the listener of the events
+     */
+    private listen(target: EventTarget, type: string, listener: EventListener): void {
+        target.addEventListener(type, listener, false);
+        this.listeners.push([target, type, listener]);
+    }
 
+    /**
+     * Detaches this view from the page for good: every listener it added is removed, its
+     * animations are stopped along with any frame they were waiting for, and it no longer draws
+     * anything, even when the card images it was waiting for arrive.
+     */
+    dispose(): void {
+        this.listeners.forEach(function ([target, type, listener]) {
+            target.removeEventListener(type, listener, false);
+        });
+        this.listeners.length = 0;
+        this.animator.finishAll();
+        this.interactive = false;
+        this.disposed = true;
     }
 
     /**
@@ -47,36 +155,167 @@ export class PyramidSolitaireVisualView {
         this.controller = controller;
     }
 
+    /**
+     * Sets whether the player can play through this view. A view which is not interactive ignores
+     * every click and key press, for example while a recorded game is being replayed in it.
+     * @param interactive whether the view responds to the player
+     */
+    setInteractive(interactive: boolean): void {
+        this.interactive = interactive;
+    }
+
+    /**
+     * Sets whether the cards which can be played are marked on the table, and repaints the view.
+     * @param assist whether the playable cards are marked
+     */
+    setAssist(assist: boolean): void {
+        this.assist = assist;
+        this.markPlayable();
+        this.refresh();
+    }
+
+    /**
+     * Sets which cards can be played, which are marked if the player is being assisted.
+     * @param cardPositions the positions of the playable cards, with the index of a draw card and
+     * -1 for draw cards
+     */
+    updatePlayable(cardPositions: Array<Pos2D>): void {
+        this.playable = cardPositions.slice();
+        this.markPlayable();
+    }
+
+    /**
+     * Changes the settings of the animations of this view, such as whether motion is reduced.
+     * @param options the settings of the animations
+     */
+    setAnimationOptions(options: AnimationOptions): void {
+        this.animator.setOptions(options);
+    }
+
+    /**
+     * Changes the colours the table and the cards are drawn in, and repaints the view.
+     * @param theme the colours of the table and the cards
+     * @param fourColorSuits whether each suit has its own colour
+     */
+    setTheme(theme: Theme, fourColorSuits: boolean): void {
+        this.faces.setTheme(theme, fourColorSuits);
+        this.refresh();
+    }
+
+    /**
+     * Sets where everything is drawn on the board of the game being shown, and sizes the canvas to
+     * fit the board.
+     * @param layout the layout of the board
+     */
+    setLayout(layout: BoardLayout): void {
+        this.layout = layout;
+        this.resize();
+    }
+
+    /**
+     * Sizes the canvas to show the whole board as wide as the page allows, but no wider than the
+     * board itself, with a pixel of the canvas for every pixel of the screen so that it stays sharp,
+     * and repaints it.
+     */
+    resize(): void {
+        if (this.disposed) {
+            return;
+        }
+        this.pixelRatio = window.devicePixelRatio || 1;
+        const parent: HTMLElement = this.canvas.parentElement;
+        const available: number = parent != null && parent.clientWidth > 0
+            ? parent.clientWidth - 2 * this.canvas.clientLeft : this.layout.getWidth();
+        this.layout.fitTo(Math.min(available, this.layout.getWidth()), Infinity);
+
+        const width: number = this.layout.getWidth() * this.layout.getScale();
+        const height: number = this.layout.getHeight() * this.layout.getScale();
+        this.canvas.style.width = width + "px";
+        this.canvas.style.height = height + "px";
+        this.canvas.width = Math.round(width * this.pixelRatio);
+        this.canvas.height = Math.round(height * this.pixelRatio);
+        this.refresh();
+    }
+
     /**
      * Repaints the visual view.
      */
     refresh(): void {
+        // Checks if the view has been disposed, leaving the canvas to the view of the next game
+        if (this.disposed) {
+            return;
+        }
+        // draws in units of the board from here on
+        const scale: number = this.layout.getScale() * this.pixelRatio;
+        this.context.setTransform(scale, 0, 0, scale, 0, 0);
+
         // sets the background
+        const theme: Theme = this.faces.getTheme();
         this.context.font = "25px Veranda"
-        this.context.fillStyle = "#0b8327";
-        this.context.fillRect(0, 0, 700, 800); // make the width and height constants
+        this.context.fillStyle = theme.table;
+        this.context.fillRect(0, 0, this.layout.getWidth(), this.layout.getHeight());
 
         // draws the score and draws labels and suit value labels
-        this.context.fillStyle = "#ffffff";
-        this.context.fillText("Draws:", 25, 500);
-        this.context.fillText("Suit Values:", 25, 175);
-        this.context.fillText(" K - 13", 25, 200);
-        this.context.fillText(" Q - 12", 25, 225);
-        this.context.fillText("  J - 11", 25, 250);
+        this.context.fillStyle = theme.text;
+        this.context.fillText("Draws:", 25, this.layout.getDrawLabelY());
+        const legend: Pos2D = this.layout.getLegend();
+        this.context.fillText("Sum to " + this.removalValue, legend.getX(), legend.getY());
+        if (this.faceValues.length > 0) {
+            this.context.fillText("Suit Values:", legend.getX(), legend.getY() + 25);
+        }
+        for (let index = 0; index < this.faceValues.length; index++) {
+            this.context.fillText(" " + Card.rankLabel(this.faceValues[index]) + " - "
+                + this.faceValues[index], legend.getX(), legend.getY() + 50 + 25 * index);
+        }
+        const discard: Pos2D = this.layout.getDiscardZone();
+        this.context.fillText("Discard", discard.getX(), this.layout.getDrawLabelY());
+        const stock: Pos2D = this.layout.getStock();
+        this.context.fillText("Stock: " + this.stockSize + "   Waste: " + this.wasteSize
+            + "   Redeals left: " + this.redealsLeft, stock.getX(), stock.getY());
 
 
-        // win screen if the score of 0 is met
-        if (this.score == 0) {
+        // win screen if the game has been won
+        const scorePos: Pos2D = this.layout.getScore();
+        if (this.won) {
             this.context.font = "35px Veranda"
-            this.context.fillText("You Won! ", 500, 175);
+            this.context.fillText("You Won! ", scorePos.getX(), scorePos.getY());
         } else { // if the game is not won
             this.context.font = "25px Veranda"
-            this.context.fillText("Score: " + this.score, 500, 175);
+            this.context.fillText("Score: " + this.scoring.format(this.score), scorePos.getX(), scorePos.getY());
+        }
+        // outlines the discard zone, which kings and draw cards can be dragged onto
+        this.context.strokeStyle = theme.text;
+        this.context.setLineDash([6, 4]);
+        this.context.strokeRect(discard.getX(), discard.getY(), BoardLayout.CARD_WIDTH, BoardLayout.CARD_HEIGHT);
+        this.context.setLineDash([]);
+        this.context.strokeStyle = "#000000";
+        // draws the stock face down, or the place it was if it has run out
+        const stockPile: Pos2D = this.layout.getStockPile();
+        if (this.stockSize > 0) {
+            this.faces.drawBack(this.context, stockPile.getX(), stockPile.getY(),
+                BoardLayout.CARD_WIDTH, BoardLayout.CARD_HEIGHT);
+        } else {
+            this.context.strokeStyle = theme.emptySlot;
+            this.context.strokeRect(stockPile.getX(), stockPile.getY(), BoardLayout.CARD_WIDTH, BoardLayout.CARD_HEIGHT);
+            this.context.strokeStyle = "#000000";
+        }
+
+        if (this.message != null) {
+            this.context.font = "25px Veranda"
+            this.context.fillStyle = theme.text;
+            this.context.fillText(this.message, this.layout.getMessage().getX(), this.layout.getMessage().getY());
         }
-        // renders each of the viewCards
+
+        // renders each of the viewCards, with the card being dragged on top
         for (let index = 0 ; index < this.cards.length; index++) {
-            this.cards[index].render(this.context);
+            if (this.cards[index] !== this.dragCard || this.dragState !== DragState.DRAGGING) {
+                this.cards[index].render(this.context, this.faces);
+            }
         }
+        if (this.dragState === DragState.DRAGGING) {
+            this.dragCard.render(this.context, this.faces);
+        }
+        // renders the removed cards flying off and any celebration on top of the table
+        this.animator.render(this.context, this.faces, this.layout.getWidth(), this.layout.getHeight());
     }
 
     /**
@@ -89,7 +328,8 @@ export class PyramidSolitaireVisualView {
     }
 
     /**
-     * Makes the card with the given position in the pyramid invisible, if possible.
+     * Makes the card with the given position in the pyramid invisible, if possible, and animates it
+     * flying off the table.
      * @param pyramidPos the position of the card to be made invisible
      */
     makeInvisible(pyramidPos: Pos2D): void {
@@ -97,6 +337,10 @@ export class PyramidSolitaireVisualView {
         for (let index = 0 ; index < this.cards.length ; index ++) {
             if (this.cards[index].getPyramidPosition().equals(pyramidPos)
                 && !this.cards[index].isDrawCardCheck()) {
+                if (this.cards[index].getVisible()) {
+                    this.animator.flyOff(this.cards[index], this.layout.getFlyOff().getX(),
+                        this.layout.getFlyOff().getY());
+                }
                 this.cards[index].setVisible(false);
                 this.cards[index].setSelected(false);
             }
@@ -104,31 +348,122 @@ export class PyramidSolitaireVisualView {
     }
 
     /**
-     * Updates the visual representation of the draw cards taking into consideration the card which
-     * has just been removed.
-     * @param removedDraw the position of the removed draw card.
-     * @param newDrawCards a list of the new draw cards.
+     * Sets the label of the card with the given position, showing it, or hides the card if the given
+     * label is null. The card is deselected either way.
+     * @param pyramidPos the position of the card to be updated
+     * @param isDrawCard whether the card to be updated is a drawCard
+     * @param label the new label of the card, or null if there is no longer a card at the position
      */
-    updateDraws(removedDraw: Pos2D, newDrawCards: Array<Card>) {
-        let drawCards: Array<ViewCard> = this.getDrawCards();
-        // updates the card which has been removed
-        let removedCard:ViewCard = null;
-        // iterates over all the draw cards to find the one which has been removed
-        for (let index = 0 ; index < drawCards.length; index++) {
-            if (drawCards[index].getPyramidPosition().equals(removedDraw)) {
-                removedCard = drawCards[index];
+    updateCard(pyramidPos: Pos2D, isDrawCard: boolean, label: string): void {
+        // iterates over all the viewCards to find the one with the given position
+        for (let index = 0; index < this.cards.length; index++) {
+            let card: ViewCard = this.cards[index];
+            if (card.getPyramidPosition().equals(pyramidPos) && card.isDrawCardCheck() === isDrawCard) {
+                if (label != null) {
+                    card.setLabel(label);
+                }
+                card.setVisible(label != null);
+                card.setSelected(false);
             }
         }
+    }
 
-        let replacementCard: Card = newDrawCards[removedCard.getPyramidPosition().getX()];
-        removedCard.setLabel(replacementCard.toString());
-        removedCard.setSelected(false);
+    /**
+     * Replaces the draw card with the given index by the card with the given label, or hides it if
+     * the label is null, animating the old card flying off the table and the new one sliding in
+     * from the stock.
+     * @param drawIndex the index of the draw card
+     * @param label the label of the new draw card, or null if there is none
+     */
+    replaceDraw(drawIndex: number, label: string): void {
+        const drawPos: Pos2D = new Pos2D(drawIndex, -1);
+        for (let index = 0; index < this.cards.length; index++) {
+            let card: ViewCard = this.cards[index];
+            if (card.getPyramidPosition().equals(drawPos) && card.isDrawCardCheck()) {
+                if (card.getVisible()) {
+                    this.animator.flyOff(card, this.layout.getFlyOff().getX(), this.layout.getFlyOff().getY());
+                }
+                this.updateCard(drawPos, true, label);
+                if (label != null) {
+                    this.animator.slideIn(card, this.layout.getStockPile().getX(),
+                        this.layout.getStockPile().getY());
+                }
+            }
+        }
+    }
+
+    /**
+     * Celebrates the game having been won.
+     */
+    celebrate(): void {
+        this.animator.celebrate();
+    }
+
+    /**
+     * Highlights the cards with the given positions as a suggested move, removing any earlier
+     * highlighting.
+     * @param cardPositions the positions of the cards of the suggested move
+     */
+    showHint(cardPositions: Array<Pos2D>): void {
+        this.clearHint();
+        // iterates over the viewCards and highlights the ones with the given positions
+        for (let index = 0; index < this.cards.length; index++) {
+            let card: ViewCard = this.cards[index];
+            for (let posIndex = 0; posIndex < cardPositions.length; posIndex++) {
+                if (cardPositions[posIndex].equals(card.getPyramidPosition())) {
+                    card.setHinted(true);
+                }
+            }
+        }
+    }
 
-        // resets the indexes to match the given draw card list
-        for (let index = 0; index < drawCards.length; index++) {
-            drawCards[index].setPyramidPosition(new Pos2D(
-                newDrawCards.indexOf(this.getMatchingCard(
-                    drawCards[index].getLabel(), newDrawCards)), -1));
+    /**
+     * Removes the highlighting of a suggested move from every viewCard.
+     */
+    clearHint(): void {
+        for (let index = 0; index < this.cards.length; index++) {
+            this.cards[index].setHinted(false);
+        }
+    }
+
+    /**
+     * Deselects every viewCard and sets this view's selected and drawsSelected fields back to zero.
+     */
+    clearSelection(): void {
+        for (let index = 0; index < this.cards.length; index++) {
+            this.cards[index].setSelected(false);
+        }
+        this.resetSelected();
+    }
+
+    /**
+     * Enables or disables the undo and redo buttons of this view.
+     * @param canUndo whether there is a move which can be undone
+     * @param canRedo whether there is a move which can be redone
+     */
+    updateHistoryButtons(canUndo: boolean, canRedo: boolean): void {
+        this.undoButton.disabled = !canUndo;
+        this.redoButton.disabled = !canRedo;
+    }
+
+    /**
+     * Enables the auto-finish button only if the game can be finished for the player.
+     * @param canFinish whether only one sequence of moves is left in the game
+     */
+    updateAutoFinishButton(canFinish: boolean): void {
+        this.autoFinishButton.disabled = !canFinish;
+    }
+
+    /**
+     * Marks the viewCards which are playable as playable, and no others, or none at all if the
+     * player is not being assisted.
+     */
+    private markPlayable(): void {
+        for (let index = 0; index < this.cards.length; index++) {
+            const card: ViewCard = this.cards[index];
+            card.setPlayable(this.assist && this.playable.some(function (position) {
+                return position.equals(card.getPyramidPosition());
+            }));
         }
     }
 
@@ -148,29 +483,194 @@ export class PyramidSolitaireVisualView {
     }
 
 
+    /**
+     * Shows the given message on the table until it is cleared or the player selects a card, and
+     * repaints the view.
+     * @param message the message to be shown
+     */
     printMessage(message: String): void {
-        this.context.fillStyle = "#020101";
-        this.context.fillText(<string>message, 30, 550);
+        this.message = <string>message;
+        this.refresh();
+    }
+
+    /**
+     * Takes the message shown on the table away, if there is one.
+     */
+    clearMessage(): void {
+        this.message = null;
+    }
+
+    /**
+     * Explains why a move could not be made, and flashes the cards with the given positions which
+     * stopped it.
+     * @param message the explanation shown on the table
+     * @param cardPositions the positions of the cards to be flashed
+     */
+    showError(message: string, cardPositions: Array<Pos2D>): void {
+        this.animator.flash(this.cards.filter(function (card) {
+            return cardPositions.some(function (position) {
+                return position.equals(card.getPyramidPosition());
+            });
+        }));
+        this.printMessage(message);
     }
 
     /**
      * Updates the score of the game to be rendered by the view for the user to see.
      * @param score the score to be rendered
+     * @param won whether the game has been won, which is shown in place of the score
      */
-    updateScore(score: number): void {
+    updateScore(score: number, won: boolean): void {
         this.score = score;
+        this.won = won;
+    }
+
+    /**
+     * Sets the way the game being shown is scored, which decides how its score is written.
+     * @param scoring the scoring policy of the game
+     */
+    setScoringPolicy(scoring: ScoringPolicy): void {
+        this.scoring = scoring;
     }
 
     /**
-     * Handles mouseEvents for the visual view of the game of solitaire.
+     * Updates the legend of the view to explain the values of the cards in the given list which are
+     * shown by a letter, and the value cards must sum to in order to be removed.
+     * @param values the values of the cards in the deck
+     * @param removalValue the value cards must sum to in order to be removed
+     */
+    updateLegend(values: Array<number>, removalValue: number): void {
+        // only the face cards are shown by a letter which needs explaining
+        this.faceValues = values.filter(function (value) {
+            return value > 1 && Card.rankLabel(value) !== "" + value;
+        }).sort(function (first, second) {
+            return second - first;
+        });
+        this.removalValue = removalValue;
+    }
+
+    /**
+     * Updates the sizes of the stock and the waste, and the number of redeals left, to be rendered by
+     * the view for the user to see.
+     * @param stockSize the number of cards left in the stock
+     * @param wasteSize the number of cards in the waste
+     * @param redealsLeft the number of times the waste can still be turned over
+     */
+    updateStock(stockSize: number, wasteSize: number, redealsLeft: number): void {
+        this.stockSize = stockSize;
+        this.wasteSize = wasteSize;
+        this.redealsLeft = redealsLeft;
+    }
+
+    /**
+     * Handles clicks for the visual view of the game of solitaire, meaning a card which has been
+     * pressed and released without being dragged.
      * @param e the mouseEvent
      */
-    mouseListener(e: MouseEvent): void { // may need to use an altered position
-        let pageOffset: number = 32;
-            this.selectCard(e.pageX, e.pageY-pageOffset);
-            this.refresh();
+    mouseListener(e: MouseEvent): void {
+        if (!this.interactive) {
+            return;
+        }
+        const pos: Pos2D = this.pointerPosition(e);
+        this.selectCard(pos.getX(), pos.getY());
+        this.refresh();
+    }
+
+    /**
+     * Handles the mouse being pressed on the canvas, which may be the start of a click or a drag if
+     * it is pressed on a card which can be selected.
+     * @param e the mouseEvent
+     */
+    private mousePressed(e: MouseEvent): void {
+        if (!this.interactive || e.button !== 0) {
+            return;
+        }
+        // the cards are played where they end up, so they are put there first
+        this.animator.finishAll();
+        const pos: Pos2D = this.pointerPosition(e);
+        const card: ViewCard = this.cardAt(pos.getX(), pos.getY(), null);
+        if (card != null && this.canSelect(card)) {
+            this.dragState = DragState.PRESSED;
+            this.dragCard = card;
+            this.dragStart = pos;
+        }
+    }
+
+    /**
+     * Handles the mouse being moved, which drags the pressed card along with it once it has moved
+     * far enough from where it was pressed.
+     * @param e the mouseEvent
+     */
+    private mouseMoved(e: MouseEvent): void {
+        if (this.dragState === DragState.IDLE) {
+            return;
+        }
+        const pos: Pos2D = this.pointerPosition(e);
+        const dx: number = pos.getX() - this.dragStart.getX();
+        const dy: number = pos.getY() - this.dragStart.getY();
+        // Checks if the mouse has moved far enough to start dragging.
+        if (this.dragState === DragState.PRESSED && Math.hypot(dx, dy) < this.DRAG_THRESHOLD) {
+            return;
+        }
+        if (this.dragState === DragState.PRESSED) {
+            // dragging a card replaces whatever was selected
+            this.clearSelection();
+            this.dragState = DragState.DRAGGING;
+        }
+        this.dragCard.setDragOffset(dx, dy);
+        this.refresh();
+    }
 
+    /**
+     * Handles the mouse being released, which clicks the pressed card if it was not dragged, and
+     * otherwise drops the dragged card where the mouse is.
+     * @param e the mouseEvent
+     */
+    private mouseReleased(e: MouseEvent): void {
+        const state: DragState = this.dragState;
+        const card: ViewCard = this.dragCard;
+        this.dragState = DragState.IDLE;
+        this.dragCard = null;
+        if (state === DragState.PRESSED) {
+            this.mouseListener(e);
+        } else if (state === DragState.DRAGGING) {
+            // puts the card back in place, where it stays unless it is removed
+            card.setDragOffset(0, 0);
+            const pos: Pos2D = this.pointerPosition(e);
+            this.dropCard(card, pos.getX(), pos.getY());
+        }
+    }
 
+    /**
+     * Removes the given card dropped at the given position on the screen if it can be. A card
+     * dropped on the discard zone is removed by itself, which discards a draw card, and a card
+     * dropped on another card which can be selected is removed with it. The controller puts back
+     * a card which cannot be removed.
+     * @param card the card which has been dropped
+     * @param x the x position on the screen where it was dropped
+     * @param y the y position on the screen where it was dropped
+     */
+    private dropCard(card: ViewCard, x: number, y: number): void {
+        const target: ViewCard = this.cardAt(x, y, card);
+        if (this.layout.isInDiscardZone(x, y)) {
+            this.controller.removeSelected([card.getPyramidPosition()]);
+        } else if (target != null && this.canSelect(target)) {
+            this.controller.removeSelected([card.getPyramidPosition(), target.getPyramidPosition()]);
+        } else {
+            this.refresh();
+        }
+    }
+
+    /**
+     * Returns the position on the board of the given mouse event, wherever the canvas is on the page
+     * and however it is scaled.
+     * @param e the mouseEvent
+     * @return the position of the mouse on the board
+     */
+    private pointerPosition(e: MouseEvent): Pos2D {
+        const bounds: DOMRect = this.canvas.getBoundingClientRect();
+        return this.layout.toBoard(e.clientX - bounds.left - this.canvas.clientLeft,
+            e.clientY - bounds.top - this.canvas.clientTop);
     }
 
     /**
@@ -178,6 +678,185 @@ export class PyramidSolitaireVisualView {
      * @param e the action event.
      */
     private removeButtonActionListener(e: Event): void {
+        if (!this.interactive) {
+            return;
+        }
+        this.animator.finishAll();
+        this.removeSelected();
+    }
+
+    /**
+     * Handles action events for the undo button of this view.
+     * @param e the action event.
+     */
+    private undoButtonActionListener(e: Event): void {
+        if (!this.interactive) {
+            return;
+        }
+        this.animator.finishAll();
+        this.controller.undo();
+    }
+
+    /**
+     * Handles action events for the redo button of this view.
+     * @param e the action event.
+     */
+    private redoButtonActionListener(e: Event): void {
+        if (!this.interactive) {
+            return;
+        }
+        this.animator.finishAll();
+        this.controller.redo();
+    }
+
+    /**
+     * Handles action events for the hint button of this view.
+     * @param e the action event.
+     */
+    private hintButtonActionListener(e: Event): void {
+        if (!this.interactive) {
+            return;
+        }
+        this.animator.finishAll();
+        this.controller.hint();
+    }
+
+    /**
+     * Handles action events for the auto-finish button of this view.
+     * @param e the action event.
+     */
+    private autoFinishButtonActionListener(e: Event): void {
+        if (!this.interactive) {
+            return;
+        }
+        this.clearSelection();
+        this.controller.autoFinish();
+    }
+
+    /**
+     * Handles key events for this view, undoing on Ctrl+Z and redoing on Ctrl+Y or Ctrl+Shift+Z.
+     * Without Ctrl, the arrow keys move the keyboard focus, Space and Enter select or deselect the
+     * focused card, R removes the selected cards, D discards the focused draw card and N deals a new
+     * game. Keys typed into the fields of the page, and Space and Enter pressed on its buttons, are
+     * left alone.
+     * @param e the key event.
+     */
+    private keyListener(e: KeyboardEvent): void {
+        if (!this.interactive) {
+            return;
+        }
+        // Checks if the key was typed into a field of the page, which undoes its own typing.
+        const target: EventTarget = e.target;
+        if (target instanceof HTMLInputElement || target instanceof HTMLSelectElement
+            || target instanceof HTMLTextAreaElement) {
+            return;
+        }
+        const key: string = e.key.toLowerCase();
+        if (e.ctrlKey || e.metaKey) {
+            if (key === "z" && !e.shiftKey) {
+                e.preventDefault();
+                this.animator.finishAll();
+                this.controller.undo();
+            } else if (key === "y" || (key === "z" && e.shiftKey)) {
+                e.preventDefault();
+                this.animator.finishAll();
+                this.controller.redo();
+            }
+            return;
+        }
+        if (e.altKey) {
+            return;
+        }
+        // the cards are played where they end up, so the keys playing them put them there first
+        switch (key) {
+            case "arrowleft":
+                this.moveFocus(-1, 0);
+                break;
+            case "arrowright":
+                this.moveFocus(1, 0);
+                break;
+            case "arrowup":
+                this.moveFocus(0, -1);
+                break;
+            case "arrowdown":
+                this.moveFocus(0, 1);
+                break;
+            case " ":
+            case "enter":
+                // Checks if the key is pressing a button of the page instead.
+                if (target instanceof HTMLButtonElement) {
+                    return;
+                }
+                if (this.focused != null && this.canSelect(this.focused)) {
+                    this.animator.finishAll();
+                    this.toggleSelected(this.focused);
+                }
+                break;
+            case "r":
+                this.animator.finishAll();
+                this.removeSelected();
+                break;
+            case "d":
+                if (this.focused != null && this.focused.isDrawCardCheck() && this.focused.getVisible()) {
+                    // discards the focused draw card by itself, whatever else was selected
+                    this.animator.finishAll();
+                    this.clearSelection();
+                    this.controller.removeSelected([this.focused.getPyramidPosition()]);
+                }
+                break;
+            case "n":
+                this.newGameButton.click();
+                return;
+            default:
+                return;
+        }
+        e.preventDefault();
+        this.refresh();
+    }
+
+    /**
+     * Moves the keyboard focus to the nearest card which can be selected in the given direction
+     * from the focused card, preferring cards in line with it. If no card has the focus yet, the
+     * first card which can be selected gets it. The focus stays where it is if there is no card in
+     * that direction.
+     * @param dx the horizontal direction, -1 for left, 1 for right or 0
+     * @param dy the vertical direction, -1 for up, 1 for down or 0
+     */
+    private moveFocus(dx: number, dy: number): void {
+        let best: ViewCard = null;
+        let bestDistance: number = Infinity;
+        for (let index = 0; index < this.cards.length; index++) {
+            const card: ViewCard = this.cards[index];
+            if (card === this.focused || !this.canSelect(card)) {
+                continue;
+            }
+            if (this.focused == null) {
+                best = card;
+                break;
+            }
+            // measures how far the card is along the direction and how far off to the side
+            const x: number = card.getScreenPosition().getX() - this.focused.getScreenPosition().getX();
+            const y: number = card.getScreenPosition().getY() - this.focused.getScreenPosition().getY();
+            const along: number = x * dx + y * dy;
+            const aside: number = Math.abs(x * dy) + Math.abs(y * dx);
+            if (along > 0 && along + 2 * aside < bestDistance) {
+                best = card;
+                bestDistance = along + 2 * aside;
+            }
+        }
+        if (best != null) {
+            if (this.focused != null) {
+                this.focused.setFocused(false);
+            }
+            this.focused = best;
+            this.focused.setFocused(true);
+        }
+    }
+
+    /**
+     * Removes the cards selected by the player, and starts a new selection.
+     */
+    private removeSelected(): void {
         this.controller.removeSelected(this.getSelectedCards());
         this.resetSelected();
     }
@@ -189,13 +868,14 @@ export class PyramidSolitaireVisualView {
     private rulesButtonActionListener(e: Event): void {
         alert("The goal of a game of pyramid solitaire is to clear " +
             "the pyramid by removing the cards one or two at a time.\n To remove a card or pair of " +
-            "cards the value(s) of the card(s) must sum to 13. " +
+            "cards the value(s) of the card(s) must sum to " + this.removalValue + ". " +
             "\n You may only remove cards that are not covered, meaning the two spots below the card are" +
             " empty. \n You may use draw cards paired with " +
-            "pyramid cards, or discard any draw card and it will be replaced by the next in the deck.  \n" +
-            " The score represents the sum of the " +
-            "values of the cards in the pyramid, so the goal, like in golf, " +
-            "is to get the lowest score possible.\n A score of zero wins the game.");
+            "pyramid cards, or discard any draw card and it will be replaced by the next in the deck.  \n " +
+            this.scoring.description + "\n You can also drag a " +
+            "card onto the card it pairs with, or drag a king or a draw card onto Discard.\n To play with the " +
+            "keyboard, move between the cards with the arrow keys, select them with Space or Enter, " +
+            "press R to remove the selected cards, D to discard a draw card and N for a new deal.");
     }
 
     /**
@@ -229,121 +909,81 @@ export class PyramidSolitaireVisualView {
      * @param screenY the y position on the screen of the card we are selecting
      */
     selectCard(x: number, y: number): void {
-        for (let index = 0 ; index < this.cards.length ; index ++) {
-            let card: ViewCard = this.cards[index];
-            // checks if if the card clicked is card, and if that card is uncovered
-            if (x > card.getScreenPosition().getX() && x < card.getScreenPosition().getX() + 60 &&
-                y > card.getScreenPosition().getY() && y < card.getScreenPosition().getY() + 70 - 10
-               && this.notCovered(card.getPyramidPosition(), card.isDrawCardCheck())) {
-                // toggles the card selected status
-                if (card.getSelected()) { // if the card is already selected
-                    this.selected--;
-                    if (card.isDrawCardCheck()) {
-                        this.drawsSelected--;
-                    }
-                    card.setSelected(!card.getSelected());
-                } else if ( // if the card is not selected
-                    (this.selected < 2  && card.getVisible()) && //the card is valid and less than 2 cards are selected
-                    ((!card.isDrawCardCheck()) || // the card is not a draw
-                    (card.isDrawCardCheck() && this.drawsSelected < 1 ))) { // the card is a draw and can be selected
-                    this.selected++;
-                    if (card.isDrawCardCheck()) {
-                        this.drawsSelected++;
-                    }
-                    card.setSelected(!card.getSelected());
-                }
-
-
-            }
+        let card: ViewCard = this.cardAt(x, y, null);
+        // checks if there is a card clicked, and if that card can be selected
+        if (card != null && this.controller.canSelect(card.getPyramidPosition(), card.isDrawCardCheck())) {
+            this.toggleSelected(card);
         }
     }
 
     /**
-     * Gets the card containing the given x and y positions on the screen, returns null if there is none.
-     * @param screenX the x position on the screen of the card we are getting
-     * @param screenY the y position on the screen of the card we are getting
-     * @return the card in this panel containing given position on the screen
+     * Toggles whether the given card is selected, unless selecting it would make more than two
+     * cards, or more than one draw card, selected.
+     * @param card the card being selected or deselected
      */
-    getCard(x: number, y: number): ViewCard {
-        this.cards.forEach(function (card) {
-            // checks if the card contains the given x, y coordinates
-            if (x > card.getScreenPosition().getX() && x < card.getScreenPosition().getX() + 60 &&
-                y > card.getScreenPosition().getY() && y < card.getScreenPosition().getY() + 70 - 10) {
-                // returns a copy of the card if it is the one with the given coordinates
-                 let result: ViewCard = new ViewCard(card.getScreenPosition(), card.getPyramidPosition(),
-                    <string>card.getLabel(), card.isDrawCardCheck());
-                result.setSelected(card.getSelected());
-                result.setVisible(card.getVisible());
-                return result;
-
+    private toggleSelected(card: ViewCard): void {
+        this.message = null;
+        if (card.getSelected()) { // if the card is already selected
+            this.selected--;
+            if (card.isDrawCardCheck()) {
+                this.drawsSelected--;
             }
-        });
-        return null;
+            card.setSelected(!card.getSelected());
+        } else if ( // if the card is not selected
+            (this.selected < 2  && card.getVisible()) && //the card is valid and less than 2 cards are selected
+            ((!card.isDrawCardCheck()) || // the card is not a draw
+            (card.isDrawCardCheck() && this.drawsSelected < 1 ))) { // the card is a draw and can be selected
+            this.selected++;
+            if (card.isDrawCardCheck()) {
+                this.drawsSelected++;
+            }
+            card.setSelected(!card.getSelected());
+        }
     }
 
     /**
-     * Returns a list of all the cards that are labeled drawCards from this drawingPanel's cards.
-     *
-     * @return a list of all this panel's drawCards.
+     * Returns whether the given card is showing and may be selected by the player, meaning it is a
+     * draw card or an uncovered card of the pyramid.
+     * @param card the card being checked
+     * @return whether the card can be selected
      */
-    private getDrawCards(): Array<ViewCard> {
-        let drawCards: Array<ViewCard> = new Array<ViewCard>();
-        // iterates over the viewCards and adds the drawCards to the result
-        for (let index = 0; index < this.cards.length; index++) {
-            if (this.cards[index].isDrawCardCheck()) {
-                drawCards.push(this.cards[index]);
-            }
-        }
-        return drawCards;
+    private canSelect(card: ViewCard): boolean {
+        return card.getVisible()
+            && this.controller.canSelect(card.getPyramidPosition(), card.isDrawCardCheck());
     }
 
     /**
-     * Returns the card from the list of cards with the toString result that matches the given label.
-     *
-     * @param label the label being searched for
-     * @param cards the cards being searched through
-     * @return the card with the matching label from the given list
-     * @throws IllegalArgumentException if a card with the given label does not exist
-     */
-    private getMatchingCard(label: String, cards: Array<Card>): Card {
-        for (let index = 0; index < cards.length; index++) {
-            if (cards[index].toString() == label) {
-                return cards[index];
-            }
+     * Gets the card containing the given x and y positions on the screen, returns null if there is none.
+     * @param screenX the x position on the screen of the card we are getting
+     * @param screenY the y position on the screen of the card we are getting
+     * @return a copy of the card in this panel containing given position on the screen
+     */
+    getCard(x: number, y: number): ViewCard {
+        const card: ViewCard = this.cardAt(x, y, null);
+        if (card == null) {
+            return null;
         }
-        throw new Error("No card with the given label, " + label);
+        // returns a copy of the card
+        return card.copy();
     }
 
     /**
-     * Whether the card at the given pyramid position in the pyramid is uncovered, meaning the cards below and to the
-     * left and below and to the right of the pyramid position are invisible. If the card is a drawCard it is alwaus
-     * uncovered because there are no cards beneath it.
-     *
-     * @param pyramidPosition the position in question
-     * @param isDrawCard      whether the given card is a drawCard
-     * @return whether the card with the given attributes is uncovered in the pyramid
-     */
-    private notCovered(pyramidPosition: Pos2D, isDrawCard: boolean): boolean {
-        // if the card is a drawCard return true
-        if (isDrawCard) {
-            return true;
-        }
-        // the positions below the given position
-        let botLeft: Pos2D = new Pos2D(pyramidPosition.getX() + 1, pyramidPosition.getY());
-        let botRight: Pos2D = new Pos2D(pyramidPosition.getX() + 1, pyramidPosition.getY() + 1);
-
-        // iterates over the viewCards and checks if the ones below the given index are visible
-        for (let index=0; index < this.cards.length; index ++) {
-            let viewCard = this.cards[index];
-            if ((viewCard.getPyramidPosition().equals(botLeft)
-                || viewCard.getPyramidPosition().equals(botRight))
-                && viewCard.getVisible() && !viewCard.isDrawCardCheck()) {
-                return false;
+     * Returns the card shown on top at the given position on the screen, or null if no card is shown
+     * there. Cards which have been removed are not shown, and a card overlapped by the row below it
+     * is only found where it is not covered by a card of that row.
+     * @param x the x position on the screen
+     * @param y the y position on the screen
+     * @param except a card to be left out, or null
+     * @return the card at the given position, or null
+     */
+    private cardAt(x: number, y: number, except: ViewCard): ViewCard {
+        // the cards are drawn in order, so the last card containing the position is on top
+        for (let index = this.cards.length - 1; index >= 0; index--) {
+            const card: ViewCard = this.cards[index];
+            if (card !== except && card.getVisible() && card.contains(x, y)) {
+                return card;
             }
         }
-
-        return true;
+        return null;
     }
-    
-    
-}
\ No newline at end of file
+}
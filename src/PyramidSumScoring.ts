@@ -0,0 +1,25 @@
+import {ScoringPolicy, ScoringState} from "./ScoringPolicy";
+import {ScoringType} from "./ScoringType";
+
+/**
+ * Represents the usual scoring of a game of pyramid solitaire, in which the score is the sum of the
+ * values of the cards left in the pyramid. The game is won once the score reaches zero.
+ */
+export class PyramidSumScoring implements ScoringPolicy {
+    readonly type = ScoringType.PYRAMID_SUM;
+    readonly lowerIsBetter = true;
+    readonly description = "The score is the sum of the values of the cards in the pyramid, so the goal, " +
+        "like in golf, is to get the lowest score possible. A score of zero wins the game.";
+
+    score(state: ScoringState): number {
+        return state.cleared ? 0 : state.pyramidSum;
+    }
+
+    isWon(state: ScoringState): boolean {
+        return this.score(state) === 0;
+    }
+
+    format(score: number): string {
+        return "" + score;
+    }
+}
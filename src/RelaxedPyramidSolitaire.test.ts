@@ -0,0 +1,55 @@
+import {RelaxedPyramidSolitaire} from "./RelaxedPyramidSolitaire";
+import {BasicPyramidSolitaire} from "./BasicPyramidSolitaire";
+import {AbstractPyramidSolitaire} from "./AbstractPyramidSolitaire";
+import {Card} from "./Card";
+import {Suit} from "./Suit";
+import {MoveType} from "./MoveType";
+import {PyramidSolitaireSolver} from "./PyramidSolitaireSolver";
+import {SolverStatus} from "./SolverStatus";
+
+/**
+ * Starts the given game with Q♥ at the top, A♥ and K♥ below it and no draw cards, then removes K♥,
+ * leaving Q♥ covered only by A♥.
+ */
+function startCoveredOnlyByPartner(model: AbstractPyramidSolitaire): void {
+  const first: Array<Card> = [new Card(Suit.HEART, 12), new Card(Suit.HEART, 1), new Card(Suit.HEART, 13)];
+  const rest: Array<Card> = model.getDeck().filter(card => !first.some(other => other.equals(card)));
+  model.startGame(first.concat(rest), false, 2, 0);
+  model.remove(1, 1);
+}
+
+describe('RelaxedPyramidSolitaire', () => {
+  test('removes a pair when one card is covered only by the other', () => {
+    const model: RelaxedPyramidSolitaire = new RelaxedPyramidSolitaire();
+    startCoveredOnlyByPartner(model);
+    expect(model.canBeSelected(0, 0)).toBe(true);
+    expect(model.isGameOver()).toBe(false);
+    expect(model.getLegalMoves()).toEqual([{type: MoveType.REMOVE_TWO, row1: 0, card1: 0, row2: 1, card2: 0}]);
+    model.removeTwo(1, 0, 0, 0);
+    expect(model.getScore()).toBe(0);
+  });
+
+  test('follows the basic rules otherwise', () => {
+    const model: RelaxedPyramidSolitaire = new RelaxedPyramidSolitaire();
+    model.startGame(model.getDeck(), false, 7, 3);
+    expect(model.canBeSelected(5, 0)).toBe(false);
+    expect(() => model.removeTwo(5, 0, 6, 0)).toThrow();
+  });
+
+  test('differs from the basic game', () => {
+    const model: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    startCoveredOnlyByPartner(model);
+    expect(model.canBeSelected(0, 0)).toBe(false);
+    expect(model.isGameOver()).toBe(true);
+    expect(() => model.removeTwo(1, 0, 0, 0)).toThrow();
+  });
+
+  test('is solved by its own rules', () => {
+    const relaxed: RelaxedPyramidSolitaire = new RelaxedPyramidSolitaire();
+    const basic: BasicPyramidSolitaire = new BasicPyramidSolitaire();
+    startCoveredOnlyByPartner(relaxed);
+    startCoveredOnlyByPartner(basic);
+    expect(new PyramidSolitaireSolver().solve(relaxed).status).toBe(SolverStatus.WINNABLE);
+    expect(new PyramidSolitaireSolver().solve(basic).status).toBe(SolverStatus.UNWINNABLE);
+  });
+});
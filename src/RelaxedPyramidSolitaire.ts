@@ -0,0 +1,113 @@
+import {AbstractSinglePyramidSolitaireModel} from "./AbstractSinglePyramidSolitaireModel";
+import {GameType} from "./GameType";
+import {DeckSpec} from "./DeckSpec";
+import {AbstractPyramidSolitaire} from "./AbstractPyramidSolitaire";
+
+/**
+ * Represents the model of a relaxed game of pyramid solitaire, which is played exactly like a basic
+ * game of pyramid solitaire except that two pyramid cards may also be removed together when one of
+ * them is covered only by the other, meaning the other card is directly below it and the second
+ * position directly below it is empty. The card doing the covering must itself be uncovered.
+ */
+export class RelaxedPyramidSolitaire extends AbstractSinglePyramidSolitaireModel {
+
+    /**
+     * Constructs a {@code RelaxedPyramidSolitaire} object played with a deck of the given make-up.
+     *
+     * @param deckSpec the make-up of the deck, a standard deck of 52 cards if not given
+     * @throws Error if the make-up of the deck is not valid
+     */
+    constructor(deckSpec: DeckSpec = AbstractPyramidSolitaire.standardDeck(1)) {
+        super(deckSpec);
+    }
+
+    getGameType(): GameType {
+        return GameType.RELAXED;
+    }
+
+    copy(): RelaxedPyramidSolitaire {
+        let result: RelaxedPyramidSolitaire = new RelaxedPyramidSolitaire(this.getDeckSpec());
+        result.copyStateFrom(this);
+        return result;
+    }
+
+    /**
+     * Returns whether the player may select the pyramid card at the given position to remove it,
+     * which in this game also includes a card covered by a single uncovered card, since the two can
+     * be removed together.
+     *
+     * @param row  row of the desired card (0-indexed from the top)
+     * @param card column of the desired card (0-indexed from the left)
+     * @return whether the card at the given position can be selected
+     * @throws Error if the coordinates are invalid
+     * @throws Error if the game hasn't been started yet
+     */
+    canBeSelected(row: number, card: number): boolean {
+        if (super.canBeSelected(row, card)) {
+            return true;
+        }
+        if (this.getCardAt(row, card) == null) {
+            return false;
+        }
+        // checks each of the two positions below the card for a single uncovered card covering it
+        return (this.isCoveredOnlyBy(row, card, row + 1, card) && !this.isCovered(row + 1, card))
+            || (this.isCoveredOnlyBy(row, card, row + 1, card + 1) && !this.isCovered(row + 1, card + 1));
+    }
+
+    /**
+     * Returns whether the cards at the two given positions could ever be removed together, which in
+     * this game also includes a card and either of the two positions directly below it.
+     *
+     * @param row1  row of the first position
+     * @param card1 card of the first position
+     * @param row2  row of the second position
+     * @param card2 card of the second position
+     * @return whether the two positions could be removed as a pair
+     */
+    canPairPositions(row1: number, card1: number, row2: number, card2: number): boolean {
+        return super.canPairPositions(row1, card1, row2, card2)
+            || this.isDirectlyBelow(row1, card1, row2, card2)
+            || this.isDirectlyBelow(row2, card2, row1, card1);
+    }
+
+    protected canRemovePair(row1: number, card1: number, row2: number, card2: number): boolean {
+        // two uncovered cards, or an uncovered card and the card it alone covers
+        return super.canRemovePair(row1, card1, row2, card2)
+            || (this.isCoveredOnlyBy(row1, card1, row2, card2) && !this.isCovered(row2, card2))
+            || (this.isCoveredOnlyBy(row2, card2, row1, card1) && !this.isCovered(row1, card1));
+    }
+
+    /**
+     * Returns whether the card at the first position is covered by the card at the second position
+     * and by no other card.
+     *
+     * @param row       the row of the covered card
+     * @param card      the card index of the covered card
+     * @param belowRow  the row of the covering card
+     * @param belowCard the card index of the covering card
+     * @return whether the second card is the only card covering the first
+     */
+    private isCoveredOnlyBy(row: number, card: number, belowRow: number, belowCard: number): boolean {
+        if (!this.isDirectlyBelow(row, card, belowRow, belowCard)
+            || !this.isCardInBounds(belowRow, belowCard)
+            || this.getCardAt(belowRow, belowCard) == null) {
+            return false;
+        }
+        // the other position directly below the covered card must be empty
+        let otherCard: number = belowCard == card ? card + 1 : card;
+        return this.getCardAt(belowRow, otherCard) == null;
+    }
+
+    /**
+     * Returns whether the second position is one of the two positions directly below the first.
+     *
+     * @param row       the row of the upper position
+     * @param card      the card index of the upper position
+     * @param belowRow  the row of the lower position
+     * @param belowCard the card index of the lower position
+     * @return whether the second position is directly below the first
+     */
+    private isDirectlyBelow(row: number, card: number, belowRow: number, belowCard: number): boolean {
+        return belowRow == row + 1 && (belowCard == card || belowCard == card + 1);
+    }
+}
@@ -0,0 +1,18 @@
+import {PyramidSolitaireError} from "./PyramidSolitaireError";
+import {ErrorCode} from "./ErrorCode";
+import {CardPosition} from "./CardPosition";
+
+/**
+ * Represents the error of removing a card as a pair with itself, which could otherwise remove a
+ * card worth half of an even removal value by itself.
+ */
+export class SameCardError extends PyramidSolitaireError {
+
+    /**
+     * Creates a SameCardError object.
+     * @param position the position of the card
+     */
+    constructor(position: CardPosition) {
+        super(ErrorCode.SAME_CARD, "A card cannot be removed together with itself.", [position]);
+    }
+}
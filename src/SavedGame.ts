@@ -0,0 +1,38 @@
+import {DeckSpec} from "./DeckSpec";
+
+/**
+ * Represents a card as it is written in a saved game.
+ */
+export interface SavedCard {
+    readonly suit: string;
+    readonly value: number;
+}
+
+/**
+ * Represents the JSON format in which a game of pyramid solitaire is saved, so that it can be
+ * resumed later exactly as it was left. Removed pyramid cards and empty draw slots are saved as
+ * null. The version is increased whenever the format changes, and older versions can still be
+ * loaded.
+ */
+export interface SavedGame {
+    readonly version: number;
+    // the kind of game, added in version 2
+    readonly gameType: string;
+    readonly gamestate: string;
+    readonly pyramid: Array<Array<SavedCard>>;
+    readonly draws: Array<SavedCard>;
+    readonly stock: Array<SavedCard>;
+    // the discarded draw cards, oldest first, and the redeals left, added in version 3
+    readonly waste: Array<SavedCard>;
+    readonly redealsLeft: number;
+    readonly removalValue: number;
+    // the make-up of the deck, added in version 4
+    readonly deck: DeckSpec;
+    readonly dealNumber: number;
+    readonly score: number;
+    // the way the game is scored, the number of moves made and the time from the deal to the last
+    // move in milliseconds, added in version 5
+    readonly scoring: string;
+    readonly moves: number;
+    readonly elapsed: number;
+}
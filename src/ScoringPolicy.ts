@@ -0,0 +1,57 @@
+import {ScoringType} from "./ScoringType";
+
+/**
+ * Represents everything about the progress of a game of pyramid solitaire which its score can
+ * depend on.
+ */
+export interface ScoringState {
+    // the sum of the values of the cards left in the pyramid
+    readonly pyramidSum: number;
+    // the number of cards dealt to the pyramid, and the number of them which have been removed
+    readonly cardsDealt: number;
+    readonly cardsCleared: number;
+    // whether every card of the pyramid has been removed
+    readonly cleared: boolean;
+    // the number of moves made, not counting moves which were redone
+    readonly moves: number;
+    // the time from the deal to the last move, in milliseconds
+    readonly elapsed: number;
+}
+
+/**
+ * Represents a way of scoring a game of pyramid solitaire, which is chosen when the game is
+ * started. A policy decides the score of a game from its progress, and when the game counts as
+ * won.
+ */
+export interface ScoringPolicy {
+    // the kind of scoring, by which the policy is saved
+    readonly type: ScoringType;
+    // whether a lower score is a better one
+    readonly lowerIsBetter: boolean;
+    // how the score is kept and when the game is won, as the rules tell the player
+    readonly description: string;
+
+    /**
+     * Returns the score of a game which has made the given progress.
+     *
+     * @param state the progress of the game
+     * @return the score of the game
+     */
+    score(state: ScoringState): number;
+
+    /**
+     * Returns whether a game which has made the given progress has been won.
+     *
+     * @param state the progress of the game
+     * @return whether the game has been won
+     */
+    isWon(state: ScoringState): boolean;
+
+    /**
+     * Returns the given score as it is shown to the player.
+     *
+     * @param score the score of a game
+     * @return the score written out
+     */
+    format(score: number): string;
+}
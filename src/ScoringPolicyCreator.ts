@@ -0,0 +1,35 @@
+import {ScoringPolicy} from "./ScoringPolicy";
+import {ScoringType} from "./ScoringType";
+import {PyramidSumScoring} from "./PyramidSumScoring";
+import {PerCardScoring} from "./PerCardScoring";
+import {VegasScoring} from "./VegasScoring";
+import {TimeBonusScoring} from "./TimeBonusScoring";
+
+/**
+ * Represents a factory for the policies of the different ways of scoring a game of pyramid
+ * solitaire.
+ */
+export class ScoringPolicyCreator {
+
+    /**
+     * Creates the policy for the given kind of scoring.
+     *
+     * @param type the kind of scoring
+     * @return the policy for that kind of scoring
+     * @throws Error if the kind of scoring is not known
+     */
+    static create(type: ScoringType): ScoringPolicy {
+        switch (type) {
+            case ScoringType.PYRAMID_SUM:
+                return new PyramidSumScoring();
+            case ScoringType.PER_CARD:
+                return new PerCardScoring();
+            case ScoringType.VEGAS:
+                return new VegasScoring();
+            case ScoringType.TIME_BONUS:
+                return new TimeBonusScoring();
+            default:
+                throw new Error("Unknown kind of scoring: " + type + ".");
+        }
+    }
+}
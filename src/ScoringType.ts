@@ -0,0 +1,15 @@
+/**
+ * Represents the ways in which a game of pyramid solitaire can be scored. Represented as one of:
+ * <ul>
+ *   <li>PYRAMID_SUM</li>
+ *   <li>PER_CARD</li>
+ *   <li>VEGAS</li>
+ *   <li>TIME_BONUS</li>
+ * </ul>
+ */
+export enum ScoringType {
+    PYRAMID_SUM = "Pyramid sum",
+    PER_CARD = "Points per card",
+    VEGAS = "Vegas",
+    TIME_BONUS = "Time and move bonus"
+}
@@ -0,0 +1,41 @@
+/**
+ * Represents a seedable pseudo-random number generator, so that the same seed always produces the
+ * same sequence of numbers. Uses the mulberry32 algorithm, which is small and fast and more than
+ * random enough for shuffling cards.
+ */
+export class SeededRandom {
+    private state: number;
+
+    /**
+     * Creates a SeededRandom object starting from the given seed.
+     *
+     * @param seed the seed of the sequence, only the lowest 32 bits of which are used
+     */
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Returns the next number of this sequence, between 0 (inclusive) and 1 (exclusive).
+     *
+     * @return the next number of this sequence
+     */
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let result: number = this.state;
+        result = Math.imul(result ^ (result >>> 15), result | 1);
+        result ^= result + Math.imul(result ^ (result >>> 7), result | 61);
+        return ((result ^ (result >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Returns the next number of this sequence as a whole number between 0 (inclusive) and the given
+     * bound (exclusive).
+     *
+     * @param bound the upper bound of the returned number
+     * @return the next whole number of this sequence
+     */
+    nextInt(bound: number): number {
+        return Math.floor(this.next() * bound);
+    }
+}
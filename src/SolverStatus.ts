@@ -0,0 +1,13 @@
+/**
+ * Represents what a solver found out about a deal of pyramid solitaire. Represented as one of:
+ * <ul>
+ *   <li>WINNABLE, a winning sequence of moves was found</li>
+ *   <li>UNWINNABLE, every sequence of moves was tried and none of them win</li>
+ *   <li>UNDECIDED, the solver ran out of nodes or time before it could tell</li>
+ * </ul>
+ */
+export enum SolverStatus {
+    WINNABLE = "Winnable",
+    UNWINNABLE = "Unwinnable",
+    UNDECIDED = "Undecided"
+}
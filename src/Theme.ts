@@ -0,0 +1,38 @@
+/**
+ * Represents the colours the table and the cards of the visual view are drawn in.
+ */
+export interface Theme {
+    // the name the player chooses the theme by
+    readonly name: string;
+    // the colour of the table, and of the writing on it
+    readonly table: string;
+    readonly text: string;
+    // the colours of the face of a card, its edge, and the outline left where a card was removed
+    readonly cardFace: string;
+    readonly cardEdge: string;
+    readonly emptySlot: string;
+    // the colour of the back of a card, and of the pattern on it
+    readonly cardBack: string;
+    readonly cardBackAccent: string;
+    // the colours of a selected card, the outline of a hinted card and the keyboard focus
+    readonly selection: string;
+    readonly hint: string;
+    readonly focus: string;
+    // the colour the cards of a move which could not be made flash in
+    readonly error: string;
+    // the colour of the inner outline of a card which can be played, in assist mode
+    readonly playable: string;
+    // the colours of the red and the black suits
+    readonly redSuit: string;
+    readonly blackSuit: string;
+}
+
+/**
+ * Represents the choice of theme the player has made, as it is saved between sessions.
+ */
+export interface ThemeSettings {
+    // the name of the theme
+    readonly name: string;
+    // whether each suit has its own colour, diamonds blue and clubs green
+    readonly fourColorSuits: boolean;
+}
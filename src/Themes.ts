@@ -0,0 +1,36 @@
+import {Theme} from "./Theme";
+
+/**
+ * Represents the themes the player can choose from for the visual view.
+ */
+export class Themes {
+    static readonly CLASSIC: Theme = {
+        name: "Classic", table: "#0b8327", text: "#ffffff", cardFace: "#ffffff", cardEdge: "#000000",
+        emptySlot: "#000000", cardBack: "#1c3f94", cardBackAccent: "#ffffff", selection: "#65b577",
+        hint: "#f5d90a", focus: "#1e6bff", error: "#ff3b30", playable: "#8e44ad", redSuit: "#ef0707", blackSuit: "#000000"
+    };
+    static readonly MIDNIGHT: Theme = {
+        name: "Midnight", table: "#14213d", text: "#e5e5e5", cardFace: "#f8f4e3", cardEdge: "#333333",
+        emptySlot: "#5c6b8a", cardBack: "#7a1f2b", cardBackAccent: "#f2c14e", selection: "#9ad1d4",
+        hint: "#f2c14e", focus: "#4cc9f0", error: "#ff5c5c", playable: "#52b788", redSuit: "#c1121f", blackSuit: "#1b1b1b"
+    };
+    static readonly CASINO: Theme = {
+        name: "Casino", table: "#7b1e1e", text: "#fff6e0", cardFace: "#fffdf7", cardEdge: "#222222",
+        emptySlot: "#e8c07d", cardBack: "#0f4c3a", cardBackAccent: "#e8c07d", selection: "#f4d58d",
+        hint: "#ffe066", focus: "#ffffff", error: "#ff9f1c", playable: "#2a9d8f", redSuit: "#d00000", blackSuit: "#111111"
+    };
+    static readonly ALL: Array<Theme> = [Themes.CLASSIC, Themes.MIDNIGHT, Themes.CASINO];
+
+    /**
+     * Returns the theme with the given name, or the classic theme if there is none.
+     *
+     * @param name the name of the theme
+     * @return the theme with that name
+     */
+    static named(name: string): Theme {
+        const found: Array<Theme> = Themes.ALL.filter(function (theme) {
+            return theme.name === name;
+        });
+        return found.length > 0 ? found[0] : Themes.CLASSIC;
+    }
+}
@@ -0,0 +1,39 @@
+import {ScoringPolicy, ScoringState} from "./ScoringPolicy";
+import {ScoringType} from "./ScoringType";
+
+/**
+ * Represents the scoring of a game of pyramid solitaire in which every card removed from the
+ * pyramid earns {@link POINTS_PER_CARD} points, and clearing the pyramid earns a bonus of up to
+ * {@link MAX_BONUS} points, less {@link SECOND_PENALTY} for every second taken and {@link
+ * MOVE_PENALTY} for every move made. The game is won once the pyramid is cleared.
+ */
+export class TimeBonusScoring implements ScoringPolicy {
+    static readonly POINTS_PER_CARD = 10;
+    static readonly MAX_BONUS = 700;
+    static readonly SECOND_PENALTY = 2;
+    static readonly MOVE_PENALTY = 5;
+    readonly type = ScoringType.TIME_BONUS;
+    readonly lowerIsBetter = false;
+    readonly description = "Every card removed from the pyramid scores " + TimeBonusScoring.POINTS_PER_CARD
+        + " points. Clearing the pyramid wins the game and a bonus of " + TimeBonusScoring.MAX_BONUS
+        + " points, less " + TimeBonusScoring.SECOND_PENALTY + " for every second taken and "
+        + TimeBonusScoring.MOVE_PENALTY + " for every move made.";
+
+    score(state: ScoringState): number {
+        let result: number = state.cardsCleared * TimeBonusScoring.POINTS_PER_CARD;
+        if (state.cleared) {
+            result += Math.max(0, TimeBonusScoring.MAX_BONUS
+                - TimeBonusScoring.SECOND_PENALTY * Math.floor(state.elapsed / 1000)
+                - TimeBonusScoring.MOVE_PENALTY * state.moves);
+        }
+        return result;
+    }
+
+    isWon(state: ScoringState): boolean {
+        return state.cleared;
+    }
+
+    format(score: number): string {
+        return score + " pts";
+    }
+}
@@ -0,0 +1,29 @@
+import {ScoringPolicy, ScoringState} from "./ScoringPolicy";
+import {ScoringType} from "./ScoringType";
+
+/**
+ * Represents Vegas-style scoring of a game of pyramid solitaire, in which the player buys in for
+ * {@link BUY_IN} dollars and is paid {@link PAYOUT_PER_CARD} dollars for every card removed from
+ * the pyramid, so the score is the money won or lost. The game is won once the pyramid is cleared.
+ */
+export class VegasScoring implements ScoringPolicy {
+    static readonly BUY_IN = 52;
+    static readonly PAYOUT_PER_CARD = 5;
+    readonly type = ScoringType.VEGAS;
+    readonly lowerIsBetter = false;
+    readonly description = "You buy in for $" + VegasScoring.BUY_IN + " and are paid $"
+        + VegasScoring.PAYOUT_PER_CARD + " for every card removed from the pyramid. Clearing the " +
+        "pyramid wins the game.";
+
+    score(state: ScoringState): number {
+        return state.cardsCleared * VegasScoring.PAYOUT_PER_CARD - VegasScoring.BUY_IN;
+    }
+
+    isWon(state: ScoringState): boolean {
+        return state.cleared;
+    }
+
+    format(score: number): string {
+        return (score < 0 ? "-$" : "$") + Math.abs(score);
+    }
+}
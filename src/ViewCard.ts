@@ -1,17 +1,25 @@
 import {Pos2D} from "./Pos2D";
+import {BoardLayout} from "./BoardLayout";
+import {CardFaces} from "./CardFaces";
+import {Theme} from "./Theme";
 
 /**
  * Represents a drawable card for a visual view of a game of solitaire.
  */
 export class ViewCard {
     private selected: boolean;
+    private hinted: boolean;
+    private flashed: boolean;
+    private playable: boolean;
+    private focused: boolean;
     private visible: boolean;
     private screenPos: Pos2D;
+    private dragOffset: Pos2D;
     private pyramidPos: Pos2D;
     private label: String;
     private readonly isDrawCard: boolean;
-    readonly CARD_WIDTH = 60;
-    readonly CARD_HEIGHT = 70;
+    readonly CARD_WIDTH = BoardLayout.CARD_WIDTH;
+    readonly CARD_HEIGHT = BoardLayout.CARD_HEIGHT;
 
     /**
      * Creates a viewCard object with the given attributes.
@@ -22,8 +30,13 @@ export class ViewCard {
      */
     constructor(screenPos: Pos2D, pyramidPos: Pos2D, label: string, isDrawCard: boolean) {
         this.selected = false;
+        this.hinted = false;
+        this.flashed = false;
+        this.playable = false;
+        this.focused = false;
         this.visible = true;
         this.screenPos = screenPos;
+        this.dragOffset = new Pos2D(0, 0);
         this.pyramidPos = pyramidPos;
         this.label = label;
         this.isDrawCard = isDrawCard;
@@ -31,60 +44,122 @@ export class ViewCard {
 
 
     /**
-     * Renders this viewCard with the given graphics.
+     * Renders this viewCard with the given graphics, with its face drawn in the given way.
      *
      * @param context the graphics to be rendered with.
+     * @param faces the way the faces of cards are drawn.
      */
-    render(context: CanvasRenderingContext2D): void {
-        context.font = "25px Veranda"
+    render(context: CanvasRenderingContext2D, faces: CardFaces): void {
+        const theme: Theme = faces.getTheme();
+        // the card is drawn where it is being dragged to, if it is being dragged
+        const x: number = this.screenPos.getX() + this.dragOffset.getX();
+        const y: number = this.screenPos.getY() + this.dragOffset.getY();
         if (this.visible) { // if the card is visible
-            if (this.selected) { // if the card is selected
-                // renders the card
-                context.fillStyle = "#65b577";
-                context.fillRect(this.screenPos.getX(), this.screenPos.getY(),
-                    this.CARD_WIDTH, this.CARD_HEIGHT);
-                // renders the accents and label
-                context.fillStyle = "#064112";
-                context.strokeRect(this.screenPos.getX(), this.screenPos.getY(),
-                    this.CARD_WIDTH, this.CARD_HEIGHT);
-                // might need to add font styling here
-
-                context.fillText(<string>this.label, this.screenPos.getX() + this.CARD_WIDTH / 4,
-                    this.screenPos.getY() + this.CARD_HEIGHT / 2);
-
-            } else { // if the card is not selected
-                // renders the card
-                context.fillStyle = "#ffffff";
-                context.fillRect(this.screenPos.getX(), this.screenPos.getY(),
-                    this.CARD_WIDTH, this.CARD_HEIGHT);
-                // renders the accents and label
-                if (this.redSuit(this.label)) {
-                    context.fillStyle = "#ef0707";
-                } else {
-                    context.fillStyle = "#000000";
-                }
-                context.strokeRect(this.screenPos.getX(), this.screenPos.getY(),
-                    this.CARD_WIDTH, this.CARD_HEIGHT);
-                // might need to add font styling here
-                context.fillText(<string>this.label, this.screenPos.getX() + this.CARD_WIDTH / 4,
-                    this.screenPos.getY() + this.CARD_HEIGHT / 2);
+            // renders the card, in the selection colour if it is selected, with its face on top
+            context.fillStyle = this.selected ? theme.selection : theme.cardFace;
+            context.fillRect(x, y, this.CARD_WIDTH, this.CARD_HEIGHT);
+            context.strokeStyle = theme.cardEdge;
+            context.strokeRect(x, y, this.CARD_WIDTH, this.CARD_HEIGHT);
+            if (this.playable) { // if the card can be played, and the player is being assisted
+                // outlines the inside of the card under its face, leaving the selection colour showing
+                context.strokeStyle = theme.playable;
+                context.lineWidth = 3;
+                context.strokeRect(x + 4, y + 4, this.CARD_WIDTH - 8, this.CARD_HEIGHT - 8);
+                context.lineWidth = 1;
             }
-        } else { // if the card is not visible
-            if (this.redSuit(this.label)) {
-                context.fillStyle = "#ef0707";
-            } else {
-                context.fillStyle = "#000000";
+            faces.drawFace(context, <string>this.label, x, y, this.CARD_WIDTH, this.CARD_HEIGHT);
+            if (this.hinted) { // if the card is part of a suggested move
+                // outlines the card so it stands out
+                context.strokeStyle = theme.hint;
+                context.lineWidth = 4;
+                context.strokeRect(x - 2, y - 2, this.CARD_WIDTH + 4, this.CARD_HEIGHT + 4);
+                context.lineWidth = 1;
             }
-            context.strokeRect(this.screenPos.getX(), this.screenPos.getY(),
-                this.CARD_WIDTH, this.CARD_HEIGHT);
-
+            if (this.flashed) { // if the card was part of a move which could not be made
+                // outlines the card in the error colour, over any hint outline
+                context.strokeStyle = theme.error;
+                context.lineWidth = 4;
+                context.strokeRect(x - 2, y - 2, this.CARD_WIDTH + 4, this.CARD_HEIGHT + 4);
+                context.lineWidth = 1;
+            }
+        } else { // if the card is not visible
+            // outlines the place the card was dealt
+            context.strokeStyle = theme.emptySlot;
+            context.strokeRect(x, y, this.CARD_WIDTH, this.CARD_HEIGHT);
+        }
+        if (this.focused) { // if the card has the keyboard focus, even once it has been removed
+            // draws a dashed cursor around the card, outside of any hint outline
+            context.strokeStyle = theme.focus;
+            context.lineWidth = 3;
+            context.setLineDash([6, 4]);
+            context.strokeRect(x - 6, y - 6, this.CARD_WIDTH + 12, this.CARD_HEIGHT + 12);
+            context.setLineDash([]);
+            context.lineWidth = 1;
         }
+        context.strokeStyle = "#000000";
+    }
+
+    /**
+     * Returns a copy of this card, dealt at the same place, with the same label and showing in the
+     * same way, which can be changed without changing this card.
+     *
+     * @return a copy of this card
+     */
+    copy(): ViewCard {
+        let result: ViewCard = new ViewCard(this.getScreenPosition(), this.getPyramidPosition(),
+            <string>this.label, this.isDrawCard);
+        result.setSelected(this.selected);
+        result.setHinted(this.hinted);
+        result.setFlashed(this.flashed);
+        result.setPlayable(this.playable);
+        result.setFocused(this.focused);
+        result.setVisible(this.visible);
+        return result;
+    }
+
+    /**
+     * Returns whether the given point on the screen is within this card, where it was dealt.
+     *
+     * @param x the x position on the screen
+     * @param y the y position on the screen
+     * @return whether the point is within this card
+     */
+    contains(x: number, y: number): boolean {
+        return x > this.screenPos.getX() && x < this.screenPos.getX() + this.CARD_WIDTH
+            && y > this.screenPos.getY() && y < this.screenPos.getY() + this.CARD_HEIGHT;
+    }
+
+    /**
+     * Sets how far this card has been dragged from where it was dealt, which is where it is drawn.
+     * An offset of zero puts it back in place.
+     *
+     * @param dx the distance dragged to the right
+     * @param dy the distance dragged down
+     */
+    setDragOffset(dx: number, dy: number): void {
+        this.dragOffset = new Pos2D(dx, dy);
     }
 
     setSelected(selected: boolean): void {
         this.selected = selected;
     }
 
+    setHinted(hinted: boolean): void {
+        this.hinted = hinted;
+    }
+
+    setFlashed(flashed: boolean): void {
+        this.flashed = flashed;
+    }
+
+    setPlayable(playable: boolean): void {
+        this.playable = playable;
+    }
+
+    setFocused(focused: boolean): void {
+        this.focused = focused;
+    }
+
     setVisible(visible: boolean): void {
         this.visible = visible;
     }
@@ -115,6 +190,22 @@ export class ViewCard {
         return this.selected;
     }
 
+    getHinted(): boolean {
+        return this.hinted;
+    }
+
+    getFlashed(): boolean {
+        return this.flashed;
+    }
+
+    getPlayable(): boolean {
+        return this.playable;
+    }
+
+    getFocused(): boolean {
+        return this.focused;
+    }
+
     getVisible(): boolean {
         return this.visible;
     }
@@ -136,10 +227,6 @@ export class ViewCard {
         return card.getLabel().substring(card.getLabel().length-1);
     }
 
-    private redSuit(type: String): boolean {
-        return (type.substring(type.length-1).localeCompare("♥") == 0 ||
-            type.substring(type.length-1).localeCompare("♦") == 0);
-    }
 
 
 
@@ -0,0 +1,35 @@
+import {PyramidSolitaireError} from "./PyramidSolitaireError";
+import {ErrorCode} from "./ErrorCode";
+import {CardPosition} from "./CardPosition";
+import {Card} from "./Card";
+
+/**
+ * Represents the error of removing cards which do not add up to the removal value of the game.
+ */
+export class WrongSumError extends PyramidSolitaireError {
+    readonly cards: Array<Card>;
+    readonly removalValue: number;
+
+    /**
+     * Creates a WrongSumError object.
+     * @param message      the message of the error
+     * @param positions    the positions of the cards
+     * @param cards        the cards, in the same order as their positions
+     * @param removalValue the value the cards had to add up to
+     */
+    constructor(message: string, positions: Array<CardPosition>, cards: Array<Card>, removalValue: number) {
+        super(ErrorCode.WRONG_SUM, message, positions);
+        this.cards = cards.slice();
+        this.removalValue = removalValue;
+    }
+
+    /**
+     * Returns the sum of the values of the cards.
+     * @return the sum of the cards
+     */
+    getSum(): number {
+        return this.cards.reduce(function (sum, card) {
+            return sum + card.getValue();
+        }, 0);
+    }
+}
@@ -0,0 +1,27 @@
+import {AbstractPyramidSolitaire} from "./AbstractPyramidSolitaire";
+import {PyramidSolitaireCreator} from "./PyramidSolitaireCreator";
+import {PyramidSolitaireTextualController} from "./PyramidSolitaireTextualController";
+import {GameType} from "./GameType";
+
+// Plays a shuffled game of pyramid solitaire in the terminal, reading the player's commands from
+// standard input. Run with `npm run cli -- [game type] [rows] [draw cards]`, for example
+// `npm run cli -- Relaxed 7 3`. The game type is one of the values of GameType.
+const args: Array<string> = process.argv.slice(2);
+const type: GameType = args.length > 0 ? args[0] as GameType : GameType.BASIC;
+const numRows: number = args.length > 1 ? parseInt(args[1], 10) : (type === GameType.MULTI ? 5 : 7);
+const numDraw: number = args.length > 2 ? parseInt(args[2], 10) : 3;
+
+try {
+    const model: AbstractPyramidSolitaire = PyramidSolitaireCreator.create(type);
+    const controller: PyramidSolitaireTextualController
+        = new PyramidSolitaireTextualController(process.stdin, process.stdout);
+    process.stdout.write("Commands: rm1 row card | rm2 row1 card1 row2 card2 | "
+        + "rmwd draw row card | dd draw | q\n");
+    controller.playGame(model, model.getDeck(), true, numRows, numDraw).catch(function (error) {
+        process.stderr.write(error.message + "\n");
+        process.exitCode = 1;
+    });
+} catch (error) {
+    process.stderr.write(error.message + "\n");
+    process.exitCode = 1;
+}
@@ -0,0 +1,41 @@
+import {PyramidSolitaireVisualView} from "./PyramidSolitaireVisualView";
+
+/**
+ * Returns a drawing context which ignores everything drawn on it, since jsdom does not draw. The
+ * properties set on the context are kept, and every method called on it returns a text measure of
+ * no width.
+ *
+ * @param onCall the function told of every method called on the context, with its arguments and
+ *               the properties set on the context so far
+ * @return the drawing context
+ */
+export function ignoringContext(onCall?: (name: string, args: Array<unknown>,
+                                          properties: Record<string, unknown>) => void): CanvasRenderingContext2D {
+  const properties: Record<string, unknown> = {};
+  const context: unknown = new Proxy(properties, {
+    get: (target: Record<string, unknown>, name: string) => name in target ? target[name]
+      : (...args: Array<unknown>) => {
+        if (onCall != null) {
+          onCall(name, args, target);
+        }
+        return {width: 0};
+      }
+  });
+  return context as CanvasRenderingContext2D;
+}
+
+/**
+ * Creates a view on new elements of the page, with the ids the page gives them.
+ *
+ * @return the view
+ */
+export function createView(): PyramidSolitaireVisualView {
+  const element = (tagName: string, id: string) => {
+    const created: HTMLElement = document.body.appendChild(document.createElement(tagName));
+    created.id = id;
+    return created;
+  };
+  return new PyramidSolitaireVisualView(element("canvas", "myCanvas"), element("button", "removeButton"),
+    element("button", "rulesButton"), element("button", "undoButton"), element("button", "redoButton"),
+    element("button", "hintButton"), element("button", "shuffleButton"), element("button", "autoFinishButton"));
+}